@@ -1,4 +1,6 @@
 const esbuild = require("esbuild");
+const fs = require("fs");
+const path = require("path");
 
 const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
@@ -23,7 +25,23 @@ const esbuildProblemMatcherPlugin = {
 	},
 };
 
+/**
+ * The bundled TypeScript compiler looks for its lib files next to the bundle.
+ * Type-aware analysis needs them to resolve DOM and ES declarations.
+ */
+function copyTypeScriptLibs() {
+	const libDir = path.dirname(require.resolve('typescript/lib/lib.d.ts'));
+	fs.mkdirSync('dist', { recursive: true });
+	for (const file of fs.readdirSync(libDir)) {
+		if (/^lib\..*\.d\.ts$/.test(file) || file === 'lib.d.ts') {
+			fs.copyFileSync(path.join(libDir, file), path.join('dist', file));
+		}
+	}
+}
+
 async function main() {
+	copyTypeScriptLibs();
+
 	const ctx = await esbuild.context({
 		entryPoints: [
 			'src/extension.ts'
@@ -0,0 +1,258 @@
+const fs = require("fs");
+const path = require("path");
+
+/**
+ * Builds src/data/generatedRules.json from a local copy of the web-features
+ * dataset by reading each feature's `compat_features` BCD keys:
+ *
+ *   node scripts/generate-rules.js [path/to/web-features/data.json]
+ *
+ * The hand-written tables in src/utils take precedence over the generated one.
+ */
+const DEFAULT_DATASET = 'node_modules/web-features/data.json';
+const OUTPUT = 'src/data/generatedRules.json';
+
+// Keys in every browser since Edge 12 shipped would only add noise
+const BASELINE_CUTOFF = '2015-07-29';
+
+// BCD nests these CSS types' units and functions directly below the type
+const UNIT_TYPES = ['length', 'angle', 'resolution', 'time', 'frequency', 'flex'];
+const FUNCTION_TYPES = ['basic-shape', 'color', 'easing-function', 'filter-function', 'gradient', 'image', 'transform-function'];
+
+// css.selectors entries that are not pseudo-classes or pseudo-elements
+const NON_PSEUDO_SELECTORS = [
+	'attribute', 'child', 'class', 'column', 'descendant', 'id', 'list', 'namespace',
+	'nesting', 'next-sibling', 'subsequent-sibling', 'type', 'universal'
+];
+
+/**
+ * Keys BCD files under a feature that do not show the feature is used:
+ * grid placement only has an effect inside a grid that `display: grid`
+ * already reports, gaps apply to flex and multi-column layouts too, and
+ * `@supports` is the feature test itself.
+ */
+const EXCLUDED_KEYS = [
+	'css.at-rules.supports',
+	'css.properties.column-gap',
+	'css.properties.gap',
+	'css.properties.grid-area',
+	'css.properties.grid-column',
+	'css.properties.grid-column-end',
+	'css.properties.grid-column-start',
+	'css.properties.grid-row',
+	'css.properties.grid-row-end',
+	'css.properties.grid-row-start',
+	'css.properties.row-gap'
+];
+
+const CSS_NAME = /^-?[a-z][a-z0-9-]*$/i;
+const HTML_NAME = /^[a-z][a-z0-9-]*$/;
+// BCD sub-features (`options_parameter`, `worker_support`) start lower-case
+const JS_NAME = /^(?:[A-Za-z$][\w$]*)$/;
+
+function isSubfeature(name) {
+	return name.includes('_') && !/^[A-Z]/.test(name);
+}
+
+function isEstablished(feature, key) {
+	const status = (feature.status && feature.status.by_compat_key && feature.status.by_compat_key[key]) || feature.status || {};
+	const lowDate = String(status.baseline_low_date || '').replace('≤', '');
+	return status.baseline === 'high' && lowDate !== '' && lowDate <= BASELINE_CUTOFF;
+}
+
+function createTable() {
+	return {
+		source: {},
+		symbols: {},
+		css: {
+			atRules: {},
+			mediaFeatures: {},
+			properties: {},
+			propertyValues: {},
+			functions: {},
+			units: {},
+			selectors: {}
+		},
+		html: []
+	};
+}
+
+function set(map, key, featureId) {
+	if (!(key in map)) {
+		map[key] = featureId;
+	}
+}
+
+function addApiKey(table, parts, featureId) {
+	// api.Interface, api.Interface.member
+	const [name, member] = parts;
+	if (!JS_NAME.test(name) || isSubfeature(name) || parts.length > 2) {
+		return;
+	}
+	if (member === undefined || member === name) {
+		set(table.symbols, name, featureId);
+	} else if (JS_NAME.test(member) && !isSubfeature(member)) {
+		set(table.symbols, `${name}.${member}`, featureId);
+	}
+}
+
+function addCssKey(table, [group, name, sub, ...rest], featureId) {
+	const css = table.css;
+	if (!name || !CSS_NAME.test(name)) {
+		return;
+	}
+
+	switch (group) {
+		case 'properties':
+			if (sub === undefined) {
+				set(css.properties, name, featureId);
+			} else if (rest.length === 0 && CSS_NAME.test(sub)) {
+				css.propertyValues[name] = css.propertyValues[name] || {};
+				set(css.propertyValues[name], sub.toLowerCase(), featureId);
+			}
+			break;
+		case 'at-rules':
+			if (sub === undefined) {
+				set(css.atRules, name, featureId);
+			} else if (name === 'media' && rest.length === 0 && CSS_NAME.test(sub)) {
+				set(css.mediaFeatures, sub, featureId);
+			}
+			break;
+		case 'selectors':
+			if (sub === undefined && !NON_PSEUDO_SELECTORS.includes(name)) {
+				set(css.selectors, name, featureId);
+			}
+			break;
+		case 'types':
+			if (sub === undefined) {
+				set(css.functions, name, featureId);
+			} else if (rest.length === 0 && CSS_NAME.test(sub) && UNIT_TYPES.includes(name)) {
+				set(css.units, sub.toLowerCase(), featureId);
+			} else if (rest.length === 0 && CSS_NAME.test(sub) && FUNCTION_TYPES.includes(name)) {
+				set(css.functions, sub.toLowerCase(), featureId);
+			}
+			break;
+	}
+}
+
+function addHtmlRule(table, rule) {
+	const exists = table.html.some(r => r.element === rule.element && r.attribute === rule.attribute && r.value === rule.value);
+	if (!exists) {
+		table.html.push(rule);
+	}
+}
+
+function addHtmlKey(table, [group, name, attribute, value, ...rest], featureId) {
+	if (!name || !HTML_NAME.test(name) || rest.length > 0) {
+		return;
+	}
+
+	if (group === 'global_attributes') {
+		// html.global_attributes.hidden.until-found
+		if (attribute === undefined) {
+			addHtmlRule(table, { featureId, attribute: name });
+		} else if (value === undefined && HTML_NAME.test(attribute)) {
+			addHtmlRule(table, { featureId, attribute: name, value: attribute });
+		}
+	} else if (group === 'elements') {
+		if (attribute === undefined) {
+			addHtmlRule(table, { featureId, element: name });
+		} else if (value === undefined && /^type_[a-z-]+$/.test(attribute)) {
+			// html.elements.input.type_color
+			addHtmlRule(table, { featureId, element: name, attribute: 'type', value: attribute.slice(5) });
+		} else if (HTML_NAME.test(attribute)) {
+			if (value === undefined) {
+				addHtmlRule(table, { featureId, element: name, attribute });
+			} else if (HTML_NAME.test(value)) {
+				addHtmlRule(table, { featureId, element: name, attribute, value });
+			}
+		}
+	}
+}
+
+function generate(data) {
+	const table = createTable();
+	const ids = Object.keys(data.features).sort();
+
+	for (const featureId of ids) {
+		const feature = data.features[featureId];
+		if (feature.kind && feature.kind !== 'feature') {
+			continue;
+		}
+
+		for (const key of feature.compat_features || []) {
+			if (EXCLUDED_KEYS.includes(key) || isEstablished(feature, key)) {
+				continue;
+			}
+
+			const [root, ...parts] = key.split('.');
+			if (root === 'api') {
+				addApiKey(table, parts, featureId);
+			} else if (root === 'javascript' && parts[0] === 'builtins') {
+				addApiKey(table, parts.slice(1), featureId);
+			} else if (root === 'css') {
+				addCssKey(table, parts, featureId);
+			} else if (root === 'html') {
+				addHtmlKey(table, parts, featureId);
+			}
+		}
+	}
+
+	// `container-type: inline-size` adds nothing over `container-type`
+	const { properties, propertyValues } = table.css;
+	for (const [property, keywords] of Object.entries(propertyValues)) {
+		for (const [keyword, featureId] of Object.entries(keywords)) {
+			if (properties[property] === featureId) {
+				delete keywords[keyword];
+			}
+		}
+		if (Object.keys(keywords).length === 0) {
+			delete propertyValues[property];
+		}
+	}
+
+	// `<details open>` adds nothing over `<details>`
+	table.html = table.html.filter(rule => !rule.attribute || !rule.element || !table.html.some(other =>
+		other.element === rule.element && !other.attribute && other.featureId === rule.featureId
+	));
+
+	return table;
+}
+
+function sortKeys(value) {
+	if (Array.isArray(value) || typeof value !== 'object' || value === null) {
+		return value;
+	}
+	const sorted = {};
+	for (const key of Object.keys(value).sort()) {
+		sorted[key] = sortKeys(value[key]);
+	}
+	return sorted;
+}
+
+function main() {
+	const dataset = path.resolve(process.argv[2] || DEFAULT_DATASET);
+	if (!fs.existsSync(dataset)) {
+		console.error(`✘ web-features dataset not found at ${dataset}`);
+		console.error('  Pass the path to web-features/data.json as the first argument.');
+		process.exit(1);
+	}
+
+	const data = JSON.parse(fs.readFileSync(dataset, 'utf8'));
+	const table = generate(data);
+
+	const manifest = path.join(path.dirname(dataset), 'package.json');
+	table.source = {
+		package: 'web-features',
+		version: fs.existsSync(manifest) ? JSON.parse(fs.readFileSync(manifest, 'utf8')).version : 'unknown'
+	};
+
+	const output = { source: table.source, symbols: sortKeys(table.symbols), css: sortKeys(table.css), html: table.html };
+	fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+	fs.writeFileSync(OUTPUT, JSON.stringify(output, null, 2) + '\n');
+
+	const css = Object.values(table.css).reduce((count, map) => count + Object.keys(map).length, 0);
+	console.log(`✔ ${OUTPUT}: ${Object.keys(table.symbols).length} symbols, ${css} CSS entries, ${table.html.length} HTML rules (web-features ${table.source.version})`);
+}
+
+main();
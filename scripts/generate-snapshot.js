@@ -0,0 +1,73 @@
+const fs = require("fs");
+const path = require("path");
+const Module = require("module");
+const ts = require("typescript");
+
+/**
+ * Builds src/data/webStatusSnapshot.json, the feature list the extension
+ * bundles for offline use, from a local copy of the web-features dataset:
+ *
+ *   node scripts/generate-snapshot.js [path/to/web-features/data.json] [path/to/browser-compat-data/data.json]
+ *
+ * Sub-features (BCD keys) are kept when their Baseline status differs from
+ * their feature's, or when @mdn/browser-compat-data records prefixed,
+ * flagged or partial support for them. Only the browsers that differ from
+ * the feature, or that have such caveats, are listed.
+ *
+ * Features have the same shape as WebStatus API results, so the client can
+ * layer live data on top of the snapshot feature by feature. The conversion
+ * is src/utils/webFeaturesData.ts, which the `npm` data source also runs on
+ * an installed dataset at runtime.
+ */
+const DEFAULT_DATASET = 'node_modules/web-features/data.json';
+const DEFAULT_COMPAT_DATA = 'node_modules/@mdn/browser-compat-data/data.json';
+const OUTPUT = 'src/data/webStatusSnapshot.json';
+const CONVERTER = path.join(__dirname, '..', 'src', 'utils', 'webFeaturesData.ts');
+
+// Compiles the extension's converter in memory; it only imports types
+function loadConverter() {
+	const { outputText } = ts.transpileModule(fs.readFileSync(CONVERTER, 'utf8'), {
+		compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+		fileName: CONVERTER
+	});
+	const converter = new Module(CONVERTER, module);
+	converter.filename = CONVERTER;
+	converter.paths = Module._nodeModulePaths(path.dirname(CONVERTER));
+	converter._compile(outputText, CONVERTER);
+	return converter.exports;
+}
+
+function main() {
+	const dataset = path.resolve(process.argv[2] || DEFAULT_DATASET);
+	if (!fs.existsSync(dataset)) {
+		console.error(`✘ web-features dataset not found at ${dataset}`);
+		console.error('  Pass the path to web-features/data.json as the first argument.');
+		process.exit(1);
+	}
+
+	const compatPath = path.resolve(process.argv[3] || DEFAULT_COMPAT_DATA);
+	const compatData = fs.existsSync(compatPath) ? JSON.parse(fs.readFileSync(compatPath, 'utf8')) : undefined;
+	if (!compatData) {
+		console.warn(`⚠ browser-compat-data not found at ${compatPath}; prefix, flag and partial support notes are left out`);
+	}
+
+	const { fromWebFeaturesData } = loadConverter();
+	const features = fromWebFeaturesData(JSON.parse(fs.readFileSync(dataset, 'utf8')), compatData);
+
+	const manifest = path.join(path.dirname(dataset), 'package.json');
+	const source = {
+		package: 'web-features',
+		version: fs.existsSync(manifest) ? JSON.parse(fs.readFileSync(manifest, 'utf8')).version : 'unknown',
+		date: new Date().toISOString().slice(0, 10)
+	};
+
+	// One feature per line keeps updates reviewable without doubling the size
+	const lines = features.map(feature => `    ${JSON.stringify(feature)}`);
+	const output = `{\n  "source": ${JSON.stringify(source)},\n  "features": [\n${lines.join(',\n')}\n  ]\n}\n`;
+	fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+	fs.writeFileSync(OUTPUT, output);
+
+	console.log(`✔ ${OUTPUT}: ${features.length} features (web-features ${source.version}, ${source.date})`);
+}
+
+main();
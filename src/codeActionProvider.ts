@@ -1,11 +1,15 @@
 // src/codeActionProvider.ts
 import * as vscode from 'vscode';
+import * as ts from 'typescript';
 import { WebStatusApiClient } from './webStatusApi';
 import { GeminiService } from './services/geminiService';
+import { HtmlDialect, HtmlFeatureDetector } from './detectors/htmlDetector';
+import { CommentStyle, SuppressionDirective, formatSuppressionComment } from './utils/suppressions';
 
 export class CompatibilityCodeActionProvider implements vscode.CodeActionProvider {
   private geminiService = GeminiService.getInstance();
   private apiClient = WebStatusApiClient.getInstance();
+  private htmlDetector = new HtmlFeatureDetector();
 
   provideCodeActions(
     document: vscode.TextDocument,
@@ -65,8 +69,219 @@ export class CompatibilityCodeActionProvider implements vscode.CodeActionProvide
         arguments: [document, diagnostic]
       };
       actions.push(browserSupportAction);
+
+      const featureId = this.getFeatureId(diagnostic);
+      if (featureId) {
+        // Add "Show Feature Timeline" action
+        const timelineAction = new vscode.CodeAction(
+          '📅 Show Feature Timeline',
+          vscode.CodeActionKind.QuickFix
+        );
+        timelineAction.diagnostics = [diagnostic];
+        timelineAction.command = {
+          command: 'baselineGuard.showTimeline',
+          title: 'Show Feature Timeline',
+          arguments: [featureId]
+        };
+        actions.push(timelineAction);
+
+        // Add "Suppress" actions
+        actions.push(this.createSuppressAction(document, diagnostic, featureId, 'disable-next-line'));
+        actions.push(this.createSuppressAction(document, diagnostic, featureId, 'disable'));
+      }
     }
 
     return actions;
   }
+
+  private getFeatureId(diagnostic: vscode.Diagnostic): string | undefined {
+    const code = diagnostic.code;
+    if (typeof code === 'object' && code !== null) {
+      return String(code.value);
+    }
+    return code === undefined ? undefined : String(code);
+  }
+
+  /**
+   * `disable-next-line` goes above the diagnostic's line, a file-wide
+   * `disable` at the top of the file, after a shebang, `@charset` or
+   * `'use strict'`. Findings in the text of a string or template literal are
+   * suppressed from the script around it: above the line the literal starts
+   * on, with a `disable`/`enable` pair when it spans several lines.
+   */
+  private createSuppressAction(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    featureId: string,
+    directive: SuppressionDirective
+  ): vscode.CodeAction {
+    const forLine = directive === 'disable-next-line';
+    const literal = forLine ? this.findEnclosingLiteral(document, document.offsetAt(diagnostic.range.start)) : undefined;
+    const literalStart = literal && document.positionAt(literal.start).line;
+    const literalEnd = literal && document.positionAt(literal.end).line;
+    const spansLines = literal !== undefined && literalStart !== literalEnd;
+
+    const action = new vscode.CodeAction(
+      !forLine ? `🔕 Suppress ${featureId} in this file`
+        : spansLines ? `🔕 Suppress ${featureId} in this template`
+        : `🔕 Suppress ${featureId} for this line`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+    action.edit = new vscode.WorkspaceEdit();
+
+    if (!forLine) {
+      const line = this.getFileDirectiveLine(document);
+      const offset = line < document.lineCount ? document.offsetAt(new vscode.Position(line, 0)) : document.getText().length;
+      this.insertLine(document, action.edit, line, formatSuppressionComment('disable', featureId, this.getCommentStyle(document, offset)));
+      return action;
+    }
+
+    const line = literalStart ?? diagnostic.range.start.line;
+    const lineText = document.lineAt(line);
+    const indent = lineText.text.slice(0, lineText.firstNonWhitespaceCharacterIndex);
+    const style = this.getCommentStyle(document, document.offsetAt(new vscode.Position(line, lineText.firstNonWhitespaceCharacterIndex)));
+
+    if (spansLines) {
+      this.insertLine(document, action.edit, line, `${indent}${formatSuppressionComment('disable', featureId, style)}`);
+      this.insertLine(document, action.edit, literalEnd! + 1, `${indent}${formatSuppressionComment('enable', featureId, style)}`);
+    } else {
+      this.insertLine(document, action.edit, line, `${indent}${formatSuppressionComment('disable-next-line', featureId, style)}`);
+    }
+    return action;
+  }
+
+  // Inserts a line before `line`, or after the last line when it is past the end
+  private insertLine(document: vscode.TextDocument, edit: vscode.WorkspaceEdit, line: number, text: string) {
+    if (line < document.lineCount) {
+      edit.insert(document.uri, new vscode.Position(line, 0), `${text}\n`);
+    } else {
+      edit.insert(document.uri, document.lineAt(document.lineCount - 1).range.end, `\n${text}`);
+    }
+  }
+
+  // The first line after a shebang, `@charset` rule or `'use strict'` directive
+  private getFileDirectiveLine(document: vscode.TextDocument): number {
+    let line = 0;
+    if (document.lineAt(0).text.startsWith('#!')) {
+      line++;
+    }
+    if (line < document.lineCount && /^\s*(@charset\b|(['"])use strict\2)/.test(document.lineAt(line).text)) {
+      line++;
+    }
+    return line;
+  }
+
+  /**
+   * The string or template literal whose text contains `offset`, in scripts
+   * and markup <script> blocks. A template nested in another's
+   * interpolation counts as part of the outer one.
+   */
+  private findEnclosingLiteral(document: vscode.TextDocument, offset: number): { start: number; end: number } | undefined {
+    let text = document.getText();
+    let baseOffset = 0;
+    let scriptKind: ts.ScriptKind;
+
+    switch (document.languageId) {
+      case 'javascript': scriptKind = ts.ScriptKind.JS; break;
+      case 'javascriptreact': scriptKind = ts.ScriptKind.JSX; break;
+      case 'typescript': scriptKind = ts.ScriptKind.TS; break;
+      case 'typescriptreact': scriptKind = ts.ScriptKind.TSX; break;
+      case 'html':
+      case 'vue':
+      case 'svelte': {
+        const region = this.htmlDetector.detect(text, document.languageId as HtmlDialect).embedded
+          .find(r => r.kind === 'script' && r.start <= offset && offset <= r.end);
+        if (!region) {
+          return undefined;
+        }
+        text = text.slice(region.start, region.end);
+        baseOffset = region.start;
+        scriptKind = ts.ScriptKind.TS;
+        break;
+      }
+      default:
+        return undefined;
+    }
+
+    const sourceFile = ts.createSourceFile(document.fileName, text, ts.ScriptTarget.Latest, true, scriptKind);
+    const position = offset - baseOffset;
+    let outermost: ts.Node | undefined;
+    let inText = false;
+
+    const visit = (node: ts.Node) => {
+      if (position <= node.getStart(sourceFile) || position >= node.getEnd()) {
+        return;
+      }
+      if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+        outermost = outermost || node;
+      }
+      // Template heads, middles and tails hold the text between interpolations
+      inText = ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateLiteralToken(node);
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return outermost && inText
+      ? { start: baseOffset + outermost.getStart(sourceFile), end: baseOffset + outermost.getEnd() }
+      : undefined;
+  }
+
+  private getCommentStyle(document: vscode.TextDocument, offset: number): CommentStyle {
+    const language = document.languageId;
+
+    if (['css', 'scss', 'less'].includes(language)) {
+      return 'block';
+    }
+
+    if (['html', 'vue', 'svelte'].includes(language)) {
+      const region = this.htmlDetector.detect(document.getText(), language as HtmlDialect).embedded
+        .find(r => r.kind !== 'style-attribute' && r.start <= offset && offset <= r.end);
+      if (!region) {
+        return 'html';
+      }
+      return region.kind === 'script' ? 'line' : 'block';
+    }
+
+    if (language === 'javascriptreact' || language === 'typescriptreact') {
+      return this.getJsxCommentStyle(document, offset);
+    }
+
+    return 'line';
+  }
+
+  /**
+   * Between JSX children a comment must be an expression (`{/* *\/}`),
+   * inside a tag only a block comment fits; elsewhere it is plain script.
+   */
+  private getJsxCommentStyle(document: vscode.TextDocument, offset: number): CommentStyle {
+    const scriptKind = document.languageId === 'typescriptreact' ? ts.ScriptKind.TSX : ts.ScriptKind.JSX;
+    const sourceFile = ts.createSourceFile(document.fileName, document.getText(), ts.ScriptTarget.Latest, true, scriptKind);
+    let style: CommentStyle = 'line';
+
+    const visit = (node: ts.Node) => {
+      if (offset < node.getStart(sourceFile) || offset >= node.getEnd()) {
+        return;
+      }
+
+      if (ts.isJsxElement(node) || ts.isJsxFragment(node)) {
+        const opening = ts.isJsxElement(node) ? node.openingElement : node.openingFragment;
+        const closing = ts.isJsxElement(node) ? node.closingElement : node.closingFragment;
+        if (offset >= opening.getEnd() && offset < closing.getStart(sourceFile)) {
+          style = 'jsx';
+        }
+      } else if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        if (offset > node.tagName.getEnd()) {
+          style = 'block';
+        }
+      } else if (ts.isJsxExpression(node) && offset > node.getStart(sourceFile)) {
+        style = 'line';
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return style;
+  }
 }
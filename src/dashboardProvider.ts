@@ -1,6 +1,10 @@
 // src/dashboardProvider.ts
 import * as vscode from 'vscode';
 import { WebStatusApiClient, WebFeature } from './webStatusApi';
+import { getBaselinePolicy } from './enhancedFeatureDetector';
+import { evaluatePolicy } from './utils/baselinePolicy';
+import { PolyfillService } from './services/polyfills';
+import { CompatibilityDiagnosticProvider } from './diagnosticProvider';
 
 export class DashboardProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'baselineGuard.dashboardView';
@@ -8,7 +12,8 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
-    private apiClient: WebStatusApiClient
+    private apiClient: WebStatusApiClient,
+    private diagnosticProvider: CompatibilityDiagnosticProvider
   ) {}
 
   public resolveWebviewView(
@@ -34,6 +39,12 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
         case 'openFeature':
           this.openFeatureDetails(data.featureId);
           break;
+        case 'showTimeline':
+          await vscode.commands.executeCommand('baselineGuard.showTimeline', data.featureId);
+          break;
+        case 'openFinding':
+          await this.openFinding(data.uri, data.line);
+          break;
       }
     });
 
@@ -53,6 +64,37 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Sends the latest findings without reloading the feature data.
+   */
+  public updateFindings() {
+    this._view?.webview.postMessage({
+      type: 'findings',
+      data: this.prepareTopFindings()
+    });
+  }
+
+  // The ten findings in analyzed files that affect the most users
+  private prepareTopFindings() {
+    return this.diagnosticProvider.getFindings()
+      .slice(0, 10)
+      .map(({ uri, detected }) => ({
+        id: detected.feature.feature_id,
+        name: detected.feature.name,
+        uri: uri.toString(),
+        line: detected.range.start.line,
+        location: `${vscode.workspace.asRelativePath(uri)}:${detected.range.start.line + 1}`,
+        score: detected.impact?.score ?? 0,
+        lacking: Math.round((detected.impact?.lacking ?? 0) * 100),
+        basis: detected.impact?.basis
+      }));
+  }
+
+  private async openFinding(uri: string, line: number) {
+    const position = new vscode.Position(line, 0);
+    await vscode.window.showTextDocument(vscode.Uri.parse(uri), { selection: new vscode.Range(position, position) });
+  }
+
   private prepareDashboardData(features: WebFeature[]) {
     const stats = {
       total: features.length,
@@ -62,6 +104,25 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
       unknown: features.filter(f => !f.baseline).length
     };
 
+    // Policy verdicts replace the fixed buckets when a Baseline target is set
+    const baselinePolicy = getBaselinePolicy();
+    let policy: { label: string; inPolicy: number; outOfPolicy: number } | undefined;
+    if (baselinePolicy) {
+      const inPolicy = features.filter(f => evaluatePolicy(f, baselinePolicy).inPolicy).length;
+      policy = {
+        label: baselinePolicy.label,
+        inPolicy,
+        outOfPolicy: features.length - inPolicy
+      };
+    }
+
+    // Features the active project polyfills, with what provides them
+    const document = vscode.window.activeTextEditor?.document;
+    const coverage = document && PolyfillService.getInstance().getCoverage(document);
+    const polyfilled = Array.from(coverage?.features || [])
+      .map(([id, source]) => ({ id, name: this.apiClient.getFeature(id)?.name || id, source }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
     // Improved category detection based on feature name and spec
     const categories = {
       css: 0,
@@ -147,9 +208,13 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
 
     return {
       stats,
+      policy,
+      polyfilled,
       categories,
       browserSupport,
       recentFeatures,
+      topFindings: this.prepareTopFindings(),
+      dataset: this.apiClient.describeDataset(),
       lastUpdated: new Date().toISOString()
     };
   }
@@ -249,6 +314,8 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
     .stat-card.widely { border-left: 4px solid #107c10; }
     .stat-card.newly { border-left: 4px solid #f9a825; }
     .stat-card.limited { border-left: 4px solid #e81123; }
+    .stat-card.in-policy { border-left: 4px solid #107c10; }
+    .stat-card.out-of-policy { border-left: 4px solid #e81123; }
 
     .chart-container {
       background: var(--vscode-editor-inactiveSelectionBackground);
@@ -362,6 +429,21 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
       opacity: 0.7;
     }
 
+    .timeline-btn {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      padding: 2px 8px;
+      margin-top: 6px;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 11px;
+    }
+
+    .timeline-btn:hover {
+      background: var(--vscode-button-secondaryHoverBackground);
+    }
+
     .loading {
       text-align: center;
       padding: 40px;
@@ -396,16 +478,31 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
       vscode.postMessage({ type: 'openFeature', featureId });
     }
 
+    function showTimeline(event, featureId) {
+      event.stopPropagation();
+      vscode.postMessage({ type: 'showTimeline', featureId });
+    }
+
+    function openFinding(uri, line) {
+      vscode.postMessage({ type: 'openFinding', uri, line });
+    }
+
+    let lastData;
+
     window.addEventListener('message', event => {
       const message = event.data;
       
       if (message.type === 'update') {
+        lastData = message.data;
         renderDashboard(message.data);
+      } else if (message.type === 'findings' && lastData) {
+        lastData.topFindings = message.data;
+        renderDashboard(lastData);
       }
     });
 
     function renderDashboard(data) {
-      const { stats, categories, browserSupport, recentFeatures, lastUpdated } = data;
+      const { stats, policy, polyfilled, categories, browserSupport, recentFeatures, topFindings, dataset, lastUpdated } = data;
 
       const html = \`
         <div class="stats-grid">
@@ -413,20 +510,11 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
             <div class="stat-value">\${stats.total}</div>
             <div class="stat-label">Total Features</div>
           </div>
-          <div class="stat-card widely">
-            <div class="stat-value">\${stats.widely}</div>
-            <div class="stat-label">✅ Widely Available</div>
-          </div>
-          <div class="stat-card newly">
-            <div class="stat-value">\${stats.newly}</div>
-            <div class="stat-label">🟡 Newly Available</div>
-          </div>
-          <div class="stat-card limited">
-            <div class="stat-value">\${stats.limited}</div>
-            <div class="stat-label">⚠️ Limited Support</div>
-          </div>
+          \${policy ? renderPolicyCards(policy) : renderStatusCards(stats)}
         </div>
 
+        \${topFindings.length > 0 ? renderImpactList(topFindings) : ''}
+
         <div class="chart-container">
           <h2>📊 Features by Category</h2>
           <div class="bar-chart">
@@ -446,12 +534,44 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
           \${renderFeatureList(recentFeatures)}
         </div>
 
-        <div class="update-time">Last updated: \${new Date(lastUpdated).toLocaleString()}</div>
+        \${polyfilled.length > 0 ? renderPolyfillList(polyfilled) : ''}
+
+        <div class="update-time">Data: \${dataset} · Last updated: \${new Date(lastUpdated).toLocaleString()}</div>
       \`;
 
       document.getElementById('content').innerHTML = html;
     }
 
+    function renderPolicyCards(policy) {
+      return \`
+          <div class="stat-card in-policy">
+            <div class="stat-value">\${policy.inPolicy}</div>
+            <div class="stat-label">✅ In Policy (\${policy.label})</div>
+          </div>
+          <div class="stat-card out-of-policy">
+            <div class="stat-value">\${policy.outOfPolicy}</div>
+            <div class="stat-label">⛔ Out of Policy</div>
+          </div>
+      \`;
+    }
+
+    function renderStatusCards(stats) {
+      return \`
+          <div class="stat-card widely">
+            <div class="stat-value">\${stats.widely}</div>
+            <div class="stat-label">✅ Widely Available</div>
+          </div>
+          <div class="stat-card newly">
+            <div class="stat-value">\${stats.newly}</div>
+            <div class="stat-label">🟡 Newly Available</div>
+          </div>
+          <div class="stat-card limited">
+            <div class="stat-value">\${stats.limited}</div>
+            <div class="stat-label">⚠️ Limited Support</div>
+          </div>
+      \`;
+    }
+
     function renderBarChart(data) {
       const maxValue = Math.max(...Object.values(data));
       return Object.entries(data)
@@ -499,10 +619,41 @@ export class DashboardProvider implements vscode.WebviewViewProvider {
         <div class="feature-item" onclick="openFeature('\${f.id}')">
           <div class="feature-name">🟡 \${f.name}</div>
           <div class="feature-date">Available since: \${f.date}</div>
+          <button class="timeline-btn" onclick="showTimeline(event, '\${f.id}')">📅 Timeline</button>
         </div>
       \`).join('');
     }
 
+    function renderPolyfillList(features) {
+      return \`
+        <div class="feature-list">
+          <h2>🩹 Polyfilled in This Project</h2>
+          \${features.map(f => \`
+            <div class="feature-item" onclick="openFeature('\${f.id}')">
+              <div class="feature-name">🩹 \${f.name}</div>
+              <div class="feature-date">\${f.source}</div>
+              <button class="timeline-btn" onclick="showTimeline(event, '\${f.id}')">📅 Timeline</button>
+            </div>
+          \`).join('')}
+        </div>
+      \`;
+    }
+
+    function renderImpactList(findings) {
+      return \`
+        <div class="feature-list">
+          <h2>📉 Highest Impact Findings</h2>
+          \${findings.map(f => \`
+            <div class="feature-item" onclick="openFinding('\${f.uri}', \${f.line})">
+              <div class="feature-name">\${f.score} · \${f.name}</div>
+              <div class="feature-date">\${f.lacking}% of \${f.basis === 'audience' ? 'your audience' : 'core browsers'} lacking · \${f.location}</div>
+              <button class="timeline-btn" onclick="showTimeline(event, '\${f.id}')">📅 Timeline</button>
+            </div>
+          \`).join('')}
+        </div>
+      \`;
+    }
+
     function capitalizeFirst(str) {
       return str.charAt(0).toUpperCase() + str.slice(1);
     }
@@ -0,0 +1,152 @@
+// src/detectors/apiDetector.ts
+import * as ts from 'typescript';
+import { FeatureMatch } from './types';
+import { getFeatureIdForSymbol, isCuratedSymbol } from '../utils/symbolFeatureMap';
+import { compatKeysForSymbol } from '../utils/subFeatures';
+
+/**
+ * Well-known global objects and the interface BCD lists their members under,
+ * so `navigator.share` resolves to `Navigator.share` without the type checker.
+ */
+const GLOBAL_OBJECTS: { [path: string]: string } = {
+  'window': 'Window',
+  'self': 'Window',
+  'globalThis': 'Window',
+  'document': 'Document',
+  'document.fonts': 'FontFaceSet',
+  'navigator': 'Navigator',
+  'navigator.clipboard': 'Clipboard',
+  'navigator.credentials': 'CredentialsContainer',
+  'navigator.gpu': 'GPU',
+  'navigator.locks': 'LockManager',
+  'navigator.mediaDevices': 'MediaDevices',
+  'navigator.permissions': 'Permissions',
+  'navigator.serviceWorker': 'ServiceWorkerContainer',
+  'navigator.storage': 'StorageManager',
+  'navigator.userActivation': 'UserActivation',
+  'navigator.wakeLock': 'WakeLock',
+  'screen': 'Screen',
+  'location': 'Location',
+  'history': 'History',
+  'performance': 'Performance',
+  'localStorage': 'Storage',
+  'sessionStorage': 'Storage',
+  'crypto': 'Crypto',
+  'crypto.subtle': 'SubtleCrypto',
+  'caches': 'CacheStorage',
+  'customElements': 'CustomElementRegistry',
+  'indexedDB': 'IDBFactory',
+  'scheduler': 'Scheduler',
+  'visualViewport': 'VisualViewport'
+};
+
+const GLOBAL_SCOPE = /^(window|self|globalThis)\./;
+
+/**
+ * Syntactic lookup of Web APIs and JavaScript built-ins in the symbol table:
+ * `new X()`, `X.staticMember`, members of well-known globals such as
+ * `navigator` and calls to global functions. Instance members of arbitrary
+ * values (`items.at(-1)`) need the type-aware mode. Names the file declares
+ * or imports itself are never taken for globals.
+ */
+export class ApiFeatureDetector {
+  detect(sourceFile: ts.SourceFile): FeatureMatch[] {
+    const matches: FeatureMatch[] = [];
+    const declared = collectDeclaredNames(sourceFile);
+
+    const report = (node: ts.Node, symbolKeys: string[]) => {
+      for (const symbolKey of symbolKeys) {
+        const featureId = getFeatureIdForSymbol(symbolKey);
+        if (featureId) {
+          matches.push({
+            featureId,
+            start: node.getStart(sourceFile),
+            end: node.getEnd(),
+            confidence: 0.9,
+            detail: symbolKey,
+            compatKeys: compatKeysForSymbol(symbolKey)
+          });
+          return;
+        }
+      }
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isNewExpression(node)) {
+        const path = getPath(node.expression);
+        if (path && !path.includes('.') && !declared.has(path)) {
+          report(node, [path]);
+        }
+      } else if (ts.isPropertyAccessExpression(node)) {
+        const receiver = getPath(node.expression);
+        const symbolInterface = receiver && getInterface(receiver);
+        if (symbolInterface) {
+          report(node, [`${symbolInterface}.${node.name.text}`]);
+        }
+      } else if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && !declared.has(node.expression.text)) {
+        // structuredClone(value), requestIdleCallback(cb)
+        const name = node.expression.text;
+        report(node.expression, isCuratedSymbol(`Window.${name}`) ? [name, `Window.${name}`] : [name]);
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return matches;
+  }
+}
+
+/**
+ * Names bound anywhere in the file: functions, classes, variables,
+ * parameters and imports. Scopes are not told apart, so a local `open`
+ * in one function also hides `open()` calls elsewhere in the file.
+ */
+function collectDeclaredNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isFunctionDeclaration(node) ||
+      ts.isClassDeclaration(node) ||
+      ts.isVariableDeclaration(node) ||
+      ts.isParameter(node) ||
+      ts.isBindingElement(node) ||
+      ts.isImportClause(node) ||
+      ts.isImportSpecifier(node) ||
+      ts.isNamespaceImport(node) ||
+      ts.isImportEqualsDeclaration(node)
+    ) {
+      if (node.name && ts.isIdentifier(node.name)) {
+        names.add(node.name.text);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return names;
+}
+
+/**
+ * Dotted path of an identifier chain with any `window.` prefix removed,
+ * e.g. `window.navigator.clipboard` → `navigator.clipboard`.
+ */
+function getPath(expression: ts.Expression): string | undefined {
+  let path: string | undefined;
+  if (ts.isIdentifier(expression)) {
+    path = expression.text;
+  } else if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.name)) {
+    const receiver = getPath(expression.expression);
+    path = receiver && `${receiver}.${expression.name.text}`;
+  }
+  return path && path.replace(GLOBAL_SCOPE, '');
+}
+
+// `navigator` → Navigator; a capitalised global (`Object`, `CSS`) is its own interface
+function getInterface(receiver: string): string | undefined {
+  if (GLOBAL_OBJECTS[receiver]) {
+    return GLOBAL_OBJECTS[receiver];
+  }
+  return /^[A-Z][\w$]*$/.test(receiver) ? receiver : undefined;
+}
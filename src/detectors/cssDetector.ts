@@ -0,0 +1,209 @@
+// src/detectors/cssDetector.ts
+import { FeatureMatch } from './types';
+import { CssAtRule, CssDeclaration, CssNode, CssRule, CssSyntax, CssToken, parseCss } from './cssParser';
+import { CSS_FEATURES } from '../utils/cssFeatures';
+
+const VENDOR_PREFIX = /^-(webkit|moz|ms|o)-/;
+
+/**
+ * Parser-based stylesheet analysis. Findings point at the exact property,
+ * value keyword, function, unit, selector or at-rule that uses a feature.
+ */
+export class CssFeatureDetector {
+  detect(text: string, syntax: CssSyntax = 'css'): FeatureMatch[] {
+    const matches: FeatureMatch[] = [];
+    this.walk(parseCss(text, syntax), text, syntax, false, matches);
+    return matches;
+  }
+
+  /**
+   * Feature IDs tested by a support condition, as written after `@supports`
+   * or passed to `CSS.supports()`: `(container-type: inline-size)`,
+   * `selector(:has(a))`. A negated condition guards nothing.
+   */
+  detectSupportsCondition(condition: string): string[] {
+    if (/^\s*not\b/i.test(condition)) {
+      return [];
+    }
+
+    const featureIds = new Set<string>();
+    const chars = condition.split('');
+    const stack: ('group' | 'function')[] = [];
+
+    for (let i = 0; i < chars.length; i++) {
+      if (condition.slice(i, i + 9).toLowerCase() === 'selector(') {
+        const close = findClosingParen(condition, i + 8);
+        for (const match of this.detect(`${condition.slice(i + 9, close)} {}`)) {
+          featureIds.add(match.featureId);
+        }
+        chars.fill(' ', i, close + 1);
+        i = close;
+      } else if (chars[i] === '(') {
+        // Parentheses around a declaration become separators, function calls stay
+        const isFunction = i > 0 && /[\w-]/.test(condition[i - 1]);
+        stack.push(isFunction ? 'function' : 'group');
+        if (!isFunction) {
+          chars[i] = ';';
+        }
+      } else if (chars[i] === ')' && stack.pop() === 'group') {
+        chars[i] = ';';
+      }
+    }
+
+    for (const match of this.detect(chars.join(''))) {
+      featureIds.add(match.featureId);
+    }
+    return [...featureIds];
+  }
+
+  private walk(nodes: CssNode[], text: string, syntax: CssSyntax, insideRule: boolean, matches: FeatureMatch[]) {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'decl':
+          this.checkDeclaration(node, matches);
+          break;
+        case 'rule':
+          this.checkSelector(node, syntax, insideRule, matches);
+          this.walk(node.children, text, syntax, true, matches);
+          break;
+        case 'atrule':
+          this.checkAtRule(node, matches);
+          if (node.children) {
+            const firstChild = matches.length;
+            this.walk(node.children, text, syntax, insideRule, matches);
+            if (node.name === 'supports' && node.prelude.length > 0) {
+              this.markGuarded(matches.slice(firstChild), node, text);
+            }
+          }
+          break;
+      }
+    }
+  }
+
+  private markGuarded(matches: FeatureMatch[], supports: CssAtRule, text: string) {
+    const prelude = supports.prelude;
+    const condition = text.slice(prelude[0].start, prelude[prelude.length - 1].end).trim();
+    const guardedIds = this.detectSupportsCondition(condition);
+
+    for (const match of matches) {
+      if (!match.guard && guardedIds.includes(match.featureId)) {
+        match.guard = `@supports ${condition}`;
+      }
+    }
+  }
+
+  private checkDeclaration(decl: CssDeclaration, matches: FeatureMatch[]) {
+    const property = decl.property.toLowerCase().replace(VENDOR_PREFIX, '');
+
+    // Preprocessor variables and custom properties only have their values checked
+    if (!/^(--|\$|@)/.test(property)) {
+      const featureId = CSS_FEATURES.properties[property];
+      if (featureId) {
+        matches.push(this.match(featureId, decl.propertyToken.start, decl.propertyToken.start + decl.property.length, 1.0, `property ${property}`, [
+          `css.properties.${property}`
+        ]));
+      }
+
+      const keywords = CSS_FEATURES.propertyValues[property];
+      if (keywords) {
+        for (const token of decl.value) {
+          const keywordFeature = token.type === 'ident' ? keywords[token.value.toLowerCase()] : undefined;
+          if (keywordFeature) {
+            matches.push(this.match(keywordFeature, token.start, token.end, 1.0, `${property}: ${token.value}`, [
+              `css.properties.${property}.${token.value.toLowerCase()}`,
+              `css.properties.${property}`
+            ]));
+          }
+        }
+      }
+    }
+
+    this.checkValueTokens(decl.value, matches);
+  }
+
+  private checkValueTokens(tokens: CssToken[], matches: FeatureMatch[]) {
+    for (const token of tokens) {
+      if (token.type === 'function') {
+        const name = token.value.toLowerCase();
+        const featureId = CSS_FEATURES.functions[name];
+        if (featureId) {
+          matches.push(this.match(featureId, token.start, token.start + token.value.length, 0.95, `function ${name}()`, [`*.${name}`]));
+        }
+      } else if (token.type === 'dimension' && token.unit) {
+        const featureId = CSS_FEATURES.units[token.unit];
+        if (featureId) {
+          matches.push(this.match(featureId, token.start, token.end, 0.95, `unit ${token.unit}`, [`*.${token.unit}`]));
+        }
+      }
+    }
+  }
+
+  private checkSelector(rule: CssRule, syntax: CssSyntax, insideRule: boolean, matches: FeatureMatch[]) {
+    const tokens = rule.selector;
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].type !== ':') {
+        continue;
+      }
+
+      const isElement = tokens[i + 1]?.type === ':';
+      const nameToken = tokens[isElement ? i + 2 : i + 1];
+      if (!nameToken || (nameToken.type !== 'ident' && nameToken.type !== 'function')) {
+        continue;
+      }
+
+      const name = nameToken.value.toLowerCase().replace(VENDOR_PREFIX, '');
+      const table = isElement ? CSS_FEATURES.pseudoElements : CSS_FEATURES.pseudoClasses;
+      const featureId = table[name];
+      if (featureId) {
+        const end = nameToken.start + nameToken.value.length;
+        const label = `${isElement ? '::' : ':'}${name}${nameToken.type === 'function' ? '()' : ''}`;
+        matches.push(this.match(featureId, tokens[i].start, end, 1.0, `selector ${label}`, [`css.selectors.${name}`]));
+      }
+      i += isElement ? 2 : 1;
+    }
+
+    // Native nesting; Sass and Less compile nested rules away
+    if (syntax === 'css' && insideRule && tokens.length > 0) {
+      const ampersand = tokens.find(t => t.type === 'delim' && t.value === '&');
+      const start = ampersand ? ampersand.start : tokens[0].start;
+      const end = ampersand ? ampersand.end : tokens[tokens.length - 1].end;
+      matches.push(this.match('nesting', start, end, 0.9, 'nested style rule', ['css.selectors.nesting']));
+    }
+  }
+
+  private checkAtRule(atRule: CssAtRule, matches: FeatureMatch[]) {
+    const featureId = CSS_FEATURES.atRules[atRule.name];
+    if (featureId) {
+      matches.push(this.match(featureId, atRule.nameToken.start, atRule.nameToken.end, 1.0, `at-rule @${atRule.name}`, [`css.at-rules.${atRule.name}`]));
+    }
+
+    if (atRule.name !== 'media') {
+      return;
+    }
+
+    for (const token of atRule.prelude) {
+      const name = token.value.toLowerCase();
+      if (token.type === 'ident' && CSS_FEATURES.mediaFeatures[name]) {
+        matches.push(this.match(CSS_FEATURES.mediaFeatures[name], token.start, token.end, 1.0, `media feature ${token.value}`, [`css.at-rules.media.${name}`]));
+      } else if (token.type === 'delim' && (token.value === '<' || token.value === '>')) {
+        matches.push(this.match('media-query-range-syntax', token.start, token.end, 0.95, 'media query range syntax', ['css.at-rules.media.range_syntax']));
+      }
+    }
+  }
+
+  private match(featureId: string, start: number, end: number, confidence: number, detail: string, compatKeys: string[]): FeatureMatch {
+    return { featureId, start, end, confidence, detail, compatKeys };
+  }
+}
+
+function findClosingParen(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') { depth++; }
+    if (text[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return text.length;
+}
@@ -0,0 +1,121 @@
+// src/detectors/cssInJsDetector.ts
+import * as ts from 'typescript';
+import { FeatureMatch } from './types';
+import { CssFeatureDetector } from './cssDetector';
+
+// Modules whose `css` tag holds plain CSS that reaches the browser unprocessed
+const NATIVE_CSS_MODULES = ['lit', 'lit-element', '@lit/reactive-element'];
+
+/**
+ * Runs the CSS detector over tagged template literals such as
+ * styled.div`...`, styled(Button)`...`, css`...` and keyframes`...`.
+ *
+ * Interpolations are replaced by same-length identifiers, so `${theme.x}`
+ * parses as a value and every offset still lines up with the source. One
+ * alone on its line, such as a mixin, ends with `;` so that it does not run
+ * into the next declaration.
+ */
+export class CssInJsDetector {
+  private cssDetector = new CssFeatureDetector();
+
+  detect(sourceFile: ts.SourceFile, tags: string[]): FeatureMatch[] {
+    const matches: FeatureMatch[] = [];
+    if (tags.length === 0) {
+      return matches;
+    }
+
+    const nativeTags = this.getNativeCssTags(sourceFile);
+
+    const visit = (node: ts.Node) => {
+      if (ts.isTaggedTemplateExpression(node)) {
+        const tag = getRootIdentifier(node.tag);
+        if (tag && tags.includes(tag)) {
+          // styled-components and emotion run their CSS through a preprocessor
+          // that handles nesting, so only lit templates are treated as plain CSS
+          const syntax = nativeTags.has(tag) ? 'css' : 'scss';
+          const { text, start } = this.getTemplateText(node.template, sourceFile);
+          for (const match of this.cssDetector.detect(text, syntax)) {
+            matches.push({ ...match, start: start + match.start, end: start + match.end });
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return matches;
+  }
+
+  /**
+   * Returns the template body (without backticks) with every `${...}`
+   * replaced by underscores, or underscores and a `;` in statement
+   * position, and the offset of the body in the source.
+   */
+  private getTemplateText(template: ts.TemplateLiteral, sourceFile: ts.SourceFile): { text: string; start: number } {
+    const start = template.getStart(sourceFile) + 1;
+    const end = template.getEnd() - 1;
+    const chars = sourceFile.text.slice(start, end).split('');
+
+    if (ts.isTemplateExpression(template)) {
+      let interpolationStart = template.head.getEnd() - 2;
+      for (const span of template.templateSpans) {
+        const interpolationEnd = span.literal.getStart(sourceFile) + 1;
+        for (let i = interpolationStart; i < interpolationEnd; i++) {
+          chars[i - start] = '_';
+        }
+        if (isStatement(sourceFile.text, interpolationStart, interpolationEnd, start, end)) {
+          chars[interpolationEnd - 1 - start] = ';';
+        }
+        interpolationStart = span.literal.getEnd() - 2;
+      }
+    }
+
+    return { text: chars.join(''), start };
+  }
+
+  private getNativeCssTags(sourceFile: ts.SourceFile): Set<string> {
+    const tags = new Set<string>();
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+        continue;
+      }
+      if (!NATIVE_CSS_MODULES.includes(statement.moduleSpecifier.text)) {
+        continue;
+      }
+      const bindings = statement.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          tags.add(element.name.text);
+        }
+      }
+    }
+
+    return tags;
+  }
+}
+
+// Whether `${...}` at [from, to) fills its line, like a mixin; the template body is [start, end)
+function isStatement(text: string, from: number, to: number, start: number, end: number): boolean {
+  const lineStart = Math.max(start, text.lastIndexOf('\n', from - 1) + 1);
+  const newline = text.indexOf('\n', to);
+  const lineEnd = newline === -1 ? end : Math.min(end, newline);
+  return /^\s*$/.test(text.slice(lineStart, from)) && /^\s*$/.test(text.slice(to, lineEnd));
+}
+
+/**
+ * `styled.div.attrs(...)` → `styled`, `styled(Button)` → `styled`, `css` → `css`.
+ */
+function getRootIdentifier(expression: ts.Expression): string | undefined {
+  let current: ts.Expression = expression;
+  while (true) {
+    if (ts.isIdentifier(current)) {
+      return current.text;
+    }
+    if (ts.isPropertyAccessExpression(current) || ts.isElementAccessExpression(current) || ts.isCallExpression(current)) {
+      current = current.expression;
+    } else {
+      return undefined;
+    }
+  }
+}
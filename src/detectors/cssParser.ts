@@ -0,0 +1,324 @@
+// src/detectors/cssParser.ts
+
+export type CssSyntax = 'css' | 'scss' | 'less';
+
+export type CssTokenType =
+  | 'ident' | 'function' | 'at-keyword' | 'hash' | 'string' | 'url'
+  | 'number' | 'percentage' | 'dimension' | 'delim' | 'whitespace' | 'comment'
+  | 'interpolation' | '{' | '}' | '(' | ')' | '[' | ']' | ';' | ':' | ',';
+
+export interface CssToken {
+  type: CssTokenType;
+  // Name for idents/functions/at-keywords/hashes, raw text otherwise
+  value: string;
+  // Unit of a dimension token (`dvh` in `100dvh`)
+  unit?: string;
+  start: number;
+  end: number;
+}
+
+export interface CssDeclaration {
+  type: 'decl';
+  property: string;
+  propertyToken: CssToken;
+  value: CssToken[];
+  start: number;
+  end: number;
+}
+
+export interface CssRule {
+  type: 'rule';
+  selector: CssToken[];
+  children: CssNode[];
+  start: number;
+  end: number;
+}
+
+export interface CssAtRule {
+  type: 'atrule';
+  name: string;
+  nameToken: CssToken;
+  prelude: CssToken[];
+  children?: CssNode[];
+  start: number;
+  end: number;
+}
+
+export type CssNode = CssDeclaration | CssRule | CssAtRule;
+
+const SINGLE_CHAR_TOKENS: { [char: string]: CssTokenType } = {
+  '{': '{', '}': '}', '(': '(', ')': ')', '[': '[', ']': ']', ';': ';', ':': ':', ',': ','
+};
+
+function isNameStart(char: string | undefined): boolean {
+  return !!char && (/[a-zA-Z_]/.test(char) || char.charCodeAt(0) >= 0x80);
+}
+
+function isNameChar(char: string | undefined): boolean {
+  return !!char && (isNameStart(char) || /[0-9-]/.test(char));
+}
+
+function isDigit(char: string | undefined): boolean {
+  return !!char && char >= '0' && char <= '9';
+}
+
+/**
+ * Tokenizes a stylesheet following CSS Syntax Level 3 closely enough for
+ * feature detection. SCSS/Less line comments and `#{}` / `@{}` interpolation
+ * are recognised so they never leak into selectors or values.
+ */
+export function tokenizeCss(text: string, syntax: CssSyntax = 'css'): CssToken[] {
+  const tokens: CssToken[] = [];
+  let i = 0;
+
+  const startsIdent = (at: number): boolean => {
+    const c = text[at];
+    if (c === '-') {
+      return isNameStart(text[at + 1]) || text[at + 1] === '-' || text[at + 1] === '\\';
+    }
+    return isNameStart(c) || c === '\\';
+  };
+
+  const consumeName = (at: number): number => {
+    while (at < text.length) {
+      if (text[at] === '\\' && at + 1 < text.length) {
+        at += 2;
+      } else if (isNameChar(text[at])) {
+        at++;
+      } else {
+        break;
+      }
+    }
+    return at;
+  };
+
+  const consumeBalanced = (at: number): number => {
+    // `at` points just past the opening brace of an interpolation
+    let depth = 1;
+    while (at < text.length && depth > 0) {
+      if (text[at] === '{') { depth++; }
+      if (text[at] === '}') { depth--; }
+      at++;
+    }
+    return at;
+  };
+
+  while (i < text.length) {
+    const start = i;
+    const c = text[i];
+
+    if (/\s/.test(c)) {
+      while (i < text.length && /\s/.test(text[i])) { i++; }
+      tokens.push({ type: 'whitespace', value: text.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (c === '/' && text[i + 1] === '*') {
+      const close = text.indexOf('*/', i + 2);
+      i = close === -1 ? text.length : close + 2;
+      tokens.push({ type: 'comment', value: text.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (c === '/' && text[i + 1] === '/' && syntax !== 'css') {
+      const newline = text.indexOf('\n', i);
+      i = newline === -1 ? text.length : newline;
+      tokens.push({ type: 'comment', value: text.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (c === '"' || c === '\'') {
+      i++;
+      while (i < text.length && text[i] !== c && text[i] !== '\n') {
+        i += text[i] === '\\' ? 2 : 1;
+      }
+      i = Math.min(text.length, i + 1);
+      tokens.push({ type: 'string', value: text.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if ((c === '#' && text[i + 1] === '{' && syntax === 'scss') || (c === '@' && text[i + 1] === '{' && syntax === 'less')) {
+      i = consumeBalanced(i + 2);
+      tokens.push({ type: 'interpolation', value: text.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (c === '#' && (isNameChar(text[i + 1]) || text[i + 1] === '\\')) {
+      i = consumeName(i + 1);
+      tokens.push({ type: 'hash', value: text.slice(start + 1, i), start, end: i });
+      continue;
+    }
+
+    if (c === '@' && startsIdent(i + 1)) {
+      i = consumeName(i + 1);
+      tokens.push({ type: 'at-keyword', value: text.slice(start + 1, i), start, end: i });
+      continue;
+    }
+
+    const signed = (c === '+' || c === '-') && (isDigit(text[i + 1]) || (text[i + 1] === '.' && isDigit(text[i + 2])));
+    if (isDigit(c) || (c === '.' && isDigit(text[i + 1])) || signed) {
+      i++;
+      while (i < text.length && (isDigit(text[i]) || (text[i] === '.' && isDigit(text[i + 1])))) { i++; }
+      if ((text[i] === 'e' || text[i] === 'E') && (isDigit(text[i + 1]) || (/[+-]/.test(text[i + 1] || '') && isDigit(text[i + 2])))) {
+        i += 2;
+        while (isDigit(text[i])) { i++; }
+      }
+      if (text[i] === '%') {
+        i++;
+        tokens.push({ type: 'percentage', value: text.slice(start, i), start, end: i });
+      } else if (startsIdent(i)) {
+        const unitStart = i;
+        i = consumeName(i);
+        tokens.push({ type: 'dimension', value: text.slice(start, i), unit: text.slice(unitStart, i).toLowerCase(), start, end: i });
+      } else {
+        tokens.push({ type: 'number', value: text.slice(start, i), start, end: i });
+      }
+      continue;
+    }
+
+    if (startsIdent(i)) {
+      i = consumeName(i);
+      const name = text.slice(start, i);
+      if (text[i] !== '(') {
+        tokens.push({ type: 'ident', value: name, start, end: i });
+        continue;
+      }
+
+      i++;
+      if (name.toLowerCase() === 'url') {
+        let j = i;
+        while (/\s/.test(text[j] || '')) { j++; }
+        if (text[j] !== '"' && text[j] !== '\'') {
+          const close = text.indexOf(')', j);
+          i = close === -1 ? text.length : close + 1;
+          tokens.push({ type: 'url', value: text.slice(start, i), start, end: i });
+          continue;
+        }
+      }
+      tokens.push({ type: 'function', value: name, start, end: i });
+      continue;
+    }
+
+    i++;
+    tokens.push({ type: SINGLE_CHAR_TOKENS[c] || 'delim', value: c, start, end: i });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a stylesheet (or the body of a block, e.g. a `style=""` attribute)
+ * into rules, at-rules and declarations. Comments are dropped.
+ */
+export function parseCss(text: string, syntax: CssSyntax = 'css'): CssNode[] {
+  const tokens = tokenizeCss(text, syntax).filter(token => token.type !== 'comment');
+  let index = 0;
+
+  const trim = (list: CssToken[]): CssToken[] => {
+    let from = 0;
+    let to = list.length;
+    while (from < to && list[from].type === 'whitespace') { from++; }
+    while (to > from && list[to - 1].type === 'whitespace') { to--; }
+    return list.slice(from, to);
+  };
+
+  // Collects tokens up to a top-level `;`, `{` or `}` (not consumed)
+  const collect = (): CssToken[] => {
+    const collected: CssToken[] = [];
+    let depth = 0;
+    while (index < tokens.length) {
+      const token = tokens[index];
+      if (depth === 0 && (token.type === ';' || token.type === '{' || token.type === '}')) {
+        break;
+      }
+      if (token.type === '(' || token.type === 'function' || token.type === '[') {
+        depth++;
+      } else if ((token.type === ')' || token.type === ']') && depth > 0) {
+        depth--;
+      }
+      collected.push(token);
+      index++;
+    }
+    return collected;
+  };
+
+  const parseBlock = (): CssNode[] => {
+    const nodes: CssNode[] = [];
+
+    while (index < tokens.length) {
+      const token = tokens[index];
+
+      if (token.type === 'whitespace' || token.type === ';') {
+        index++;
+        continue;
+      }
+      if (token.type === '}') {
+        return nodes;
+      }
+
+      if (token.type === 'at-keyword') {
+        index++;
+        const prelude = trim(collect());
+        const atRule: CssAtRule = {
+          type: 'atrule',
+          name: token.value.toLowerCase(),
+          nameToken: token,
+          prelude,
+          start: token.start,
+          end: prelude.length > 0 ? prelude[prelude.length - 1].end : token.end
+        };
+        if (tokens[index]?.type === '{') {
+          index++;
+          atRule.children = parseBlock();
+          atRule.end = tokens[index]?.end ?? text.length;
+          index++;
+        }
+        nodes.push(atRule);
+        continue;
+      }
+
+      const statement = trim(collect());
+      if (statement.length === 0) {
+        index++;
+        continue;
+      }
+
+      if (tokens[index]?.type === '{') {
+        index++;
+        const children = parseBlock();
+        nodes.push({
+          type: 'rule',
+          selector: statement,
+          children,
+          start: statement[0].start,
+          end: tokens[index]?.end ?? text.length
+        });
+        index++;
+        continue;
+      }
+
+      const colon = statement.findIndex(t => t.type === ':');
+      if (colon > 0) {
+        const property = trim(statement.slice(0, colon));
+        nodes.push({
+          type: 'decl',
+          property: text.slice(property[0].start, property[property.length - 1].end),
+          propertyToken: property[0],
+          value: trim(statement.slice(colon + 1)),
+          start: statement[0].start,
+          end: statement[statement.length - 1].end
+        });
+      }
+    }
+
+    return nodes;
+  };
+
+  const nodes: CssNode[] = [];
+  while (index < tokens.length) {
+    nodes.push(...parseBlock());
+    // Stray closing brace at the top level
+    index++;
+  }
+  return nodes;
+}
@@ -0,0 +1,233 @@
+// src/detectors/guardDetector.ts
+import * as ts from 'typescript';
+import { CssFeatureDetector } from './cssDetector';
+
+/**
+ * A stretch of script that only runs once a feature test has passed.
+ * Offsets are relative to the analysed text.
+ */
+export interface GuardRegion {
+  start: number;
+  end: number;
+  // Tested API paths without the global object: `navigator.share`, `IntersectionObserver`
+  paths: string[];
+  // Features tested through CSS.supports()
+  featureIds: string[];
+  // Source of the test, shown in diagnostics
+  description: string;
+}
+
+interface GuardCondition {
+  paths: string[];
+  featureIds: string[];
+  // True for `!('share' in navigator)` and `typeof X === 'undefined'`
+  negated: boolean;
+}
+
+const GLOBAL_OBJECTS = ['window', 'self', 'globalThis'];
+const GLOBAL_INSTANCES = ['navigator', 'document', 'location', 'history', 'screen', 'performance', 'crypto', 'indexedDB', 'caches'];
+
+/**
+ * Finds feature-detection guards in a script:
+ * - `if ('share' in navigator) { ... }` and `if (navigator.share) { ... }`
+ * - `typeof IntersectionObserver !== 'undefined'`
+ * - `if (CSS.supports('container-type', 'inline-size')) { ... }`
+ * - the `cond ? a : b` and `cond && a` forms of the above
+ * - early exits: `if (!('share' in navigator)) return;` guards the rest of the block
+ * - `a && b` and `a || b` combinations, as far as they prove the feature exists
+ * - optional calls: `navigator.share?.(data)` guards the call itself
+ */
+export class GuardDetector {
+  private cssDetector = new CssFeatureDetector();
+
+  detect(sourceFile: ts.SourceFile): GuardRegion[] {
+    const regions: GuardRegion[] = [];
+
+    const addRegion = (condition: GuardCondition, source: ts.Node, body: ts.Node | undefined, end?: number) => {
+      if (body && (condition.paths.length > 0 || condition.featureIds.length > 0)) {
+        regions.push({
+          start: body.getStart(sourceFile),
+          end: end ?? body.getEnd(),
+          paths: condition.paths,
+          featureIds: condition.featureIds,
+          description: source.getText(sourceFile)
+        });
+      }
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isIfStatement(node)) {
+        const condition = this.parseCondition(node.expression);
+        if (condition && !condition.negated) {
+          addRegion(condition, node.expression, node.thenStatement);
+        } else if (condition) {
+          addRegion(condition, node.expression, node.elseStatement);
+          if (exits(node.thenStatement) && (ts.isBlock(node.parent) || ts.isSourceFile(node.parent))) {
+            const rest = node.parent.statements.slice(node.parent.statements.indexOf(node) + 1);
+            if (rest.length > 0) {
+              addRegion(condition, node.expression, rest[0], rest[rest.length - 1].getEnd());
+            }
+          }
+        }
+      } else if (ts.isConditionalExpression(node)) {
+        const condition = this.parseCondition(node.condition);
+        if (condition) {
+          addRegion(condition, node.condition, condition.negated ? node.whenFalse : node.whenTrue);
+        }
+      } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken) {
+        const condition = this.parseCondition(node.left);
+        if (condition && !condition.negated) {
+          addRegion(condition, node.left, node.right);
+        }
+      } else if (ts.isCallExpression(node) && node.questionDotToken) {
+        const path = getGlobalPath(node.expression);
+        if (path) {
+          addRegion({ paths: [path], featureIds: [], negated: false }, node.expression, node);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return regions;
+  }
+
+  private parseCondition(expression: ts.Expression): GuardCondition | undefined {
+    if (ts.isParenthesizedExpression(expression)) {
+      return this.parseCondition(expression.expression);
+    }
+
+    if (ts.isPrefixUnaryExpression(expression) && expression.operator === ts.SyntaxKind.ExclamationToken) {
+      const inner = this.parseCondition(expression.operand);
+      return inner && { ...inner, negated: !inner.negated };
+    }
+
+    if (ts.isBinaryExpression(expression)) {
+      const operator = expression.operatorToken.kind;
+
+      // a && b: when true, every positive test in it passed; a false result proves nothing
+      // a || b: when false, every negated test in it failed, i.e. the feature exists (De Morgan)
+      if (operator === ts.SyntaxKind.AmpersandAmpersandToken || operator === ts.SyntaxKind.BarBarToken) {
+        const negated = operator === ts.SyntaxKind.BarBarToken;
+        const parts = [this.parseCondition(expression.left), this.parseCondition(expression.right)]
+          .filter((part): part is GuardCondition => !!part && part.negated === negated);
+        return parts.length === 0 ? undefined : {
+          paths: parts.flatMap(part => part.paths),
+          featureIds: parts.flatMap(part => part.featureIds),
+          negated
+        };
+      }
+
+      // 'share' in navigator
+      if (operator === ts.SyntaxKind.InKeyword && ts.isStringLiteralLike(expression.left)) {
+        const object = getGlobalPath(expression.right, true);
+        const path = object === '' ? expression.left.text : object && `${object}.${expression.left.text}`;
+        return path ? { paths: [path], featureIds: [], negated: false } : undefined;
+      }
+
+      // typeof X !== 'undefined', typeof navigator.share === 'function'
+      const typeofCheck = this.parseTypeofCheck(expression);
+      if (typeofCheck) {
+        return typeofCheck;
+      }
+    }
+
+    // CSS.supports('container-type', 'inline-size'), CSS.supports('selector(:has(a))')
+    if (ts.isCallExpression(expression) && getGlobalPath(expression.expression) === 'CSS.supports') {
+      const [first, second] = expression.arguments;
+      if (first && ts.isStringLiteralLike(first)) {
+        const condition = second && ts.isStringLiteralLike(second) ? `(${first.text}: ${second.text})` : first.text;
+        const featureIds = this.cssDetector.detectSupportsCondition(condition);
+        return { paths: [], featureIds, negated: false };
+      }
+    }
+
+    // Truthiness: navigator.share, window.IntersectionObserver
+    const path = getGlobalPath(expression);
+    return path ? { paths: [path], featureIds: [], negated: false } : undefined;
+  }
+
+  private parseTypeofCheck(expression: ts.BinaryExpression): GuardCondition | undefined {
+    const operator = expression.operatorToken.kind;
+    const equality = operator === ts.SyntaxKind.EqualsEqualsEqualsToken || operator === ts.SyntaxKind.EqualsEqualsToken;
+    const inequality = operator === ts.SyntaxKind.ExclamationEqualsEqualsToken || operator === ts.SyntaxKind.ExclamationEqualsToken;
+    if (!equality && !inequality) {
+      return undefined;
+    }
+
+    const [typeofSide, literal] = ts.isTypeOfExpression(expression.left)
+      ? [expression.left, expression.right]
+      : [expression.right, expression.left];
+    if (!ts.isTypeOfExpression(typeofSide) || !ts.isStringLiteralLike(literal)) {
+      return undefined;
+    }
+
+    const path = getGlobalPath(typeofSide.expression);
+    if (!path) {
+      return undefined;
+    }
+
+    // `=== 'undefined'` and `!== 'function'` both mean the feature is missing
+    const testsPresence = literal.text === 'undefined' ? inequality : equality;
+    return { paths: [path], featureIds: [], negated: !testsPresence };
+  }
+}
+
+/**
+ * Whether `text` (the source of a finding) uses `path` as a whole identifier
+ * chain. Optional chaining is ignored, so `navigator?.share(x)` uses `navigator.share`.
+ */
+export function referencesPath(text: string, path: string): boolean {
+  const normalized = text.replace(/\s*\??\.\s*/g, '.');
+  const escaped = path.replace(/[.$]/g, match => `\\${match}`);
+  return new RegExp(`(^|[^\\w$])${escaped}($|[^\\w$])`).test(normalized);
+}
+
+/**
+ * Dotted path of an identifier or property access that names a global API,
+ * with any `window.`/`self.`/`globalThis.` prefix removed. Local variables
+ * are rejected so that `if (items) items.at(-1)` is not taken for a guard.
+ * With `allowBareGlobal`, the global object itself yields an empty path.
+ */
+function getGlobalPath(expression: ts.Expression, allowBareGlobal = false): string | undefined {
+  const parts: string[] = [];
+  let current: ts.Expression = expression;
+  while (ts.isPropertyAccessExpression(current)) {
+    parts.unshift(current.name.text);
+    current = current.expression;
+  }
+  if (!ts.isIdentifier(current)) {
+    return undefined;
+  }
+
+  if (GLOBAL_OBJECTS.includes(current.text)) {
+    return parts.length > 0 || allowBareGlobal ? parts.join('.') : undefined;
+  }
+
+  parts.unshift(current.text);
+  const isGlobal = GLOBAL_INSTANCES.includes(current.text) || /^[A-Z]/.test(current.text);
+  return isGlobal ? parts.join('.') : undefined;
+}
+
+function exits(statement: ts.Statement): boolean {
+  const last = ts.isBlock(statement) ? statement.statements[statement.statements.length - 1] : statement;
+  return !!last && (ts.isReturnStatement(last) || ts.isThrowStatement(last) || ts.isContinueStatement(last) || ts.isBreakStatement(last));
+}
+
+/**
+ * The region guarding a finding at `start`..`end`, if any: either the test
+ * names the same feature, or the finding's source uses the tested API.
+ */
+export function findGuard(
+  regions: GuardRegion[],
+  start: number,
+  end: number,
+  featureId: string,
+  text: string
+): GuardRegion | undefined {
+  return regions.find(region =>
+    region.start <= start && end <= region.end &&
+    (region.featureIds.includes(featureId) || region.paths.some(path => referencesPath(text, path)))
+  );
+}
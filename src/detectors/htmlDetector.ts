@@ -0,0 +1,162 @@
+// src/detectors/htmlDetector.ts
+import { FeatureMatch } from './types';
+import { HtmlElement, getAttribute, parseHtml } from './htmlParser';
+import { HTML_FEATURE_RULES, HtmlFeatureRule, TOKEN_LIST_ATTRIBUTES } from '../utils/htmlFeatures';
+
+/**
+ * Markup flavour being analysed. Vue and Svelte single-file components are
+ * HTML with top-level <script> and <style> blocks that may set `lang`.
+ */
+export type HtmlDialect = 'html' | 'vue' | 'svelte';
+
+/**
+ * A block of another language embedded in the markup, to be analysed by the
+ * matching detector. Offsets are relative to the HTML text.
+ */
+export interface EmbeddedRegion {
+  kind: 'stylesheet' | 'style-attribute' | 'script';
+  start: number;
+  end: number;
+  // Editor language ID of the block: `typescript` for <script lang="ts">, `scss` for <style lang="scss">
+  language: string;
+}
+
+export interface HtmlDetectionResult {
+  matches: FeatureMatch[];
+  embedded: EmbeddedRegion[];
+}
+
+// <script type> values that contain JavaScript
+const JS_SCRIPT_TYPES = ['', 'module', 'text/javascript', 'application/javascript', 'text/ecmascript', 'application/ecmascript'];
+
+// `lang` attribute values of component blocks, mapped to editor language IDs
+const SCRIPT_LANGS: Record<string, string> = {
+  '': 'javascript',
+  js: 'javascript',
+  ts: 'typescript',
+  jsx: 'javascriptreact',
+  tsx: 'typescriptreact'
+};
+const STYLE_LANGS: Record<string, string> = {
+  '': 'css',
+  css: 'css',
+  postcss: 'css',
+  scss: 'scss',
+  less: 'less'
+};
+
+export class HtmlFeatureDetector {
+  detect(text: string, dialect: HtmlDialect = 'html'): HtmlDetectionResult {
+    const matches: FeatureMatch[] = [];
+    const embedded: EmbeddedRegion[] = [];
+
+    for (const element of parseHtml(text)) {
+      // Vue compiles every <template> (the root block, v-if/v-for/v-slot wrappers) away
+      if (!(dialect === 'vue' && element.tagName === 'template')) {
+        matches.push(...this.detectInElement(element));
+      }
+      this.collectEmbedded(element, embedded);
+    }
+
+    return { matches, embedded };
+  }
+
+  /**
+   * Checks one element against the rule table. Also used for JSX, whose
+   * elements are mapped onto the same shape.
+   */
+  detectInElement(element: HtmlElement): FeatureMatch[] {
+    const matches: FeatureMatch[] = [];
+    for (const rule of HTML_FEATURE_RULES) {
+      const match = this.matchRule(element, rule);
+      if (match) {
+        matches.push(match);
+      }
+    }
+    return matches;
+  }
+
+  private matchRule(element: HtmlElement, rule: HtmlFeatureRule): FeatureMatch | undefined {
+    if (rule.element && rule.element !== element.tagName) {
+      return undefined;
+    }
+
+    if (!rule.attribute) {
+      return {
+        featureId: rule.featureId,
+        start: element.tagNameStart,
+        end: element.tagNameEnd,
+        confidence: 1.0,
+        detail: `<${element.tagName}>`,
+        compatKeys: [`html.elements.${element.tagName}`]
+      };
+    }
+
+    const attribute = getAttribute(element, rule.attribute);
+    if (!attribute) {
+      return undefined;
+    }
+
+    if (rule.value === undefined) {
+      return {
+        featureId: rule.featureId,
+        start: attribute.nameStart,
+        end: attribute.nameEnd,
+        confidence: 1.0,
+        detail: `<${element.tagName} ${attribute.name}>`,
+        compatKeys: attributeCompatKeys(element.tagName, attribute.name)
+      };
+    }
+
+    const value = (attribute.value || '').trim().toLowerCase();
+    const matchesValue = TOKEN_LIST_ATTRIBUTES.includes(attribute.name)
+      ? value.split(/\s+/).includes(rule.value)
+      : value === rule.value;
+    if (!matchesValue || attribute.valueStart === undefined || attribute.valueEnd === undefined) {
+      return undefined;
+    }
+
+    return {
+      featureId: rule.featureId,
+      start: attribute.valueStart,
+      end: attribute.valueEnd,
+      confidence: 1.0,
+      detail: `<${element.tagName} ${attribute.name}="${rule.value}">`,
+      compatKeys: [
+        // BCD spells `<input type="color">` as `html.elements.input.type_color`
+        `html.elements.${element.tagName}.${attribute.name}_${rule.value}`,
+        `html.elements.${element.tagName}.${attribute.name}.${rule.value}`,
+        `html.global_attributes.${attribute.name}.${rule.value}`,
+        ...attributeCompatKeys(element.tagName, attribute.name)
+      ]
+    };
+  }
+
+  private collectEmbedded(element: HtmlElement, embedded: EmbeddedRegion[]) {
+    const style = getAttribute(element, 'style');
+    if (style?.valueStart !== undefined && style.valueEnd !== undefined && !style.value?.startsWith('{')) {
+      embedded.push({ kind: 'style-attribute', start: style.valueStart, end: style.valueEnd, language: 'css' });
+    }
+
+    if (!element.content || element.content.start === element.content.end) {
+      return;
+    }
+
+    // Blocks in a language we have no detector for (Stylus, CoffeeScript, ...) are skipped
+    const lang = (getAttribute(element, 'lang')?.value || '').trim().toLowerCase();
+
+    if (element.tagName === 'style' && STYLE_LANGS[lang]) {
+      embedded.push({ kind: 'stylesheet', start: element.content.start, end: element.content.end, language: STYLE_LANGS[lang] });
+    } else if (element.tagName === 'script' && SCRIPT_LANGS[lang] && !getAttribute(element, 'src')) {
+      const type = (getAttribute(element, 'type')?.value || '').trim().toLowerCase();
+      if (JS_SCRIPT_TYPES.includes(type)) {
+        embedded.push({ kind: 'script', start: element.content.start, end: element.content.end, language: SCRIPT_LANGS[lang] });
+      }
+    }
+  }
+}
+
+// An attribute is either the element's own or a global one
+function attributeCompatKeys(tagName: string, attributeName: string): string[] {
+  return [`html.elements.${tagName}.${attributeName}`, `html.global_attributes.${attributeName}`];
+}
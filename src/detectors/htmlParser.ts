@@ -0,0 +1,174 @@
+// src/detectors/htmlParser.ts
+
+export interface HtmlAttribute {
+  name: string;
+  nameStart: number;
+  nameEnd: number;
+  value?: string;
+  // Offsets of the value without its quotes
+  valueStart?: number;
+  valueEnd?: number;
+}
+
+export interface HtmlElement {
+  tagName: string;
+  tagNameStart: number;
+  tagNameEnd: number;
+  attributes: HtmlAttribute[];
+  start: number;
+  end: number;
+  // Raw text content of <script>, <style>, <textarea> and <title>
+  content?: { start: number; end: number };
+}
+
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'textarea', 'title'];
+
+/**
+ * Tokenizes HTML start tags and their attributes with source offsets.
+ * Comments, doctypes and end tags are skipped; the contents of raw text
+ * elements are never scanned for markup.
+ *
+ * Attribute values may also be `{...}` expressions (Svelte, JSX-like templates).
+ */
+export function parseHtml(text: string): HtmlElement[] {
+  const elements: HtmlElement[] = [];
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) { i++; }
+  };
+
+  const skipPast = (terminator: string) => {
+    const index = text.indexOf(terminator, i);
+    i = index === -1 ? text.length : index + terminator.length;
+  };
+
+  while (i < text.length) {
+    const open = text.indexOf('<', i);
+    if (open === -1) {
+      break;
+    }
+    i = open;
+
+    if (text.startsWith('<!--', i)) {
+      skipPast('-->');
+      continue;
+    }
+    if (text[i + 1] === '!' || text[i + 1] === '?' || text[i + 1] === '/') {
+      skipPast('>');
+      continue;
+    }
+    if (!/[a-zA-Z]/.test(text[i + 1] || '')) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const tagNameStart = i + 1;
+    i = tagNameStart;
+    while (i < text.length && /[a-zA-Z0-9\-:._]/.test(text[i])) { i++; }
+
+    const element: HtmlElement = {
+      tagName: text.slice(tagNameStart, i).toLowerCase(),
+      tagNameStart,
+      tagNameEnd: i,
+      attributes: [],
+      start,
+      end: text.length
+    };
+
+    let selfClosing = false;
+    while (i < text.length) {
+      skipWhitespace();
+      if (text[i] === '>') {
+        i++;
+        break;
+      }
+      if (text.startsWith('/>', i)) {
+        selfClosing = true;
+        i += 2;
+        break;
+      }
+
+      const nameStart = i;
+      if (text[i] === '{') {
+        // Svelte shorthand / spread attribute: {value} or {...props}
+        i = skipBraces(text, i);
+      } else {
+        while (i < text.length && !/[\s"'>/=]/.test(text[i])) { i++; }
+      }
+      if (i === nameStart) {
+        // Stray character such as a lone "/" or quote
+        i++;
+        continue;
+      }
+
+      const attribute: HtmlAttribute = {
+        name: text.slice(nameStart, i).toLowerCase(),
+        nameStart,
+        nameEnd: i
+      };
+
+      const beforeEquals = i;
+      skipWhitespace();
+      if (text[i] === '=') {
+        i++;
+        skipWhitespace();
+        const quote = text[i];
+        if (quote === '"' || quote === '\'') {
+          const close = text.indexOf(quote, i + 1);
+          attribute.valueStart = i + 1;
+          attribute.valueEnd = close === -1 ? text.length : close;
+          i = close === -1 ? text.length : close + 1;
+        } else if (quote === '{') {
+          attribute.valueStart = i;
+          i = skipBraces(text, i);
+          attribute.valueEnd = i;
+        } else {
+          attribute.valueStart = i;
+          while (i < text.length && !/[\s>]/.test(text[i])) { i++; }
+          attribute.valueEnd = i;
+        }
+        attribute.value = text.slice(attribute.valueStart, attribute.valueEnd);
+      } else {
+        i = beforeEquals;
+      }
+
+      element.attributes.push(attribute);
+    }
+
+    element.end = i;
+
+    if (!selfClosing && RAW_TEXT_ELEMENTS.includes(element.tagName)) {
+      const closePattern = new RegExp(`</${element.tagName}[\\s>]`, 'ig');
+      closePattern.lastIndex = i;
+      const close = closePattern.exec(text);
+      const contentEnd = close ? close.index : text.length;
+      element.content = { start: i, end: contentEnd };
+      i = contentEnd;
+    }
+
+    elements.push(element);
+  }
+
+  return elements;
+}
+
+function skipBraces(text: string, at: number): number {
+  let depth = 0;
+  while (at < text.length) {
+    if (text[at] === '{') { depth++; }
+    if (text[at] === '}') {
+      depth--;
+      if (depth === 0) {
+        return at + 1;
+      }
+    }
+    at++;
+  }
+  return at;
+}
+
+export function getAttribute(element: HtmlElement, name: string): HtmlAttribute | undefined {
+  return element.attributes.find(attribute => attribute.name === name);
+}
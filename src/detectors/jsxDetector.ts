@@ -0,0 +1,147 @@
+// src/detectors/jsxDetector.ts
+import * as ts from 'typescript';
+import { FeatureMatch } from './types';
+import { HtmlAttribute, HtmlElement } from './htmlParser';
+import { HtmlFeatureDetector } from './htmlDetector';
+import { CssFeatureDetector } from './cssDetector';
+
+/**
+ * Finds HTML and CSS features in JSX: intrinsic elements and their
+ * attributes go through the HTML rule table, `style={{ ... }}` objects
+ * through the CSS detector. Only literal values are considered, so strings
+ * that merely look like markup never match.
+ */
+export class JsxFeatureDetector {
+  private htmlDetector = new HtmlFeatureDetector();
+  private cssDetector = new CssFeatureDetector();
+
+  detect(sourceFile: ts.SourceFile): FeatureMatch[] {
+    const matches: FeatureMatch[] = [];
+
+    const visit = (node: ts.Node) => {
+      if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        this.checkElement(node, sourceFile, matches);
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return matches;
+  }
+
+  private checkElement(
+    node: ts.JsxOpeningElement | ts.JsxSelfClosingElement,
+    sourceFile: ts.SourceFile,
+    matches: FeatureMatch[]
+  ) {
+    const attributes: HtmlAttribute[] = [];
+
+    for (const property of node.attributes.properties) {
+      if (ts.isJsxAttribute(property)) {
+        const name = property.name.getText(sourceFile);
+        if (name === 'style') {
+          this.checkStyleObject(property, sourceFile, matches);
+          continue;
+        }
+        attributes.push({
+          // React spells attributes in camelCase: fetchPriority, popoverTarget
+          name: name.toLowerCase(),
+          nameStart: property.name.getStart(sourceFile),
+          nameEnd: property.name.getEnd(),
+          ...this.getLiteralValue(this.unwrap(property.initializer), sourceFile)
+        });
+      } else if (ts.isObjectLiteralExpression(property.expression)) {
+        // <img {...{ loading: 'lazy' }} />
+        for (const spread of property.expression.properties) {
+          if (!ts.isPropertyAssignment(spread) || !this.hasStaticName(spread)) {
+            continue;
+          }
+          attributes.push({
+            name: spread.name.text.toLowerCase(),
+            nameStart: spread.name.getStart(sourceFile),
+            nameEnd: spread.name.getEnd(),
+            ...this.getLiteralValue(spread.initializer, sourceFile)
+          });
+        }
+      }
+    }
+
+    // Components (<Dialog>, <motion.div>) are not HTML elements
+    const tagName = node.tagName;
+    if (!ts.isIdentifier(tagName) || !/^[a-z]/.test(tagName.text)) {
+      return;
+    }
+
+    const element: HtmlElement = {
+      tagName: tagName.text,
+      tagNameStart: tagName.getStart(sourceFile),
+      tagNameEnd: tagName.getEnd(),
+      attributes,
+      start: node.getStart(sourceFile),
+      end: node.getEnd()
+    };
+    matches.push(...this.htmlDetector.detectInElement(element));
+  }
+
+  private checkStyleObject(attribute: ts.JsxAttribute, sourceFile: ts.SourceFile, matches: FeatureMatch[]) {
+    const style = this.unwrap(attribute.initializer);
+    if (!style || !ts.isObjectLiteralExpression(style)) {
+      return;
+    }
+
+    for (const property of style.properties) {
+      if (!ts.isPropertyAssignment(property) || !this.hasStaticName(property)) {
+        continue;
+      }
+
+      const cssProperty = toCssPropertyName(property.name.text);
+      const value = this.getLiteralValue(property.initializer, sourceFile);
+      const declaration = `${cssProperty}: ${value.value ?? ''}`;
+      const valueOffset = cssProperty.length + 2;
+
+      // Map findings in the synthetic declaration back onto the object literal
+      for (const match of this.cssDetector.detect(declaration, 'css')) {
+        if (match.start < valueOffset) {
+          matches.push({ ...match, start: property.name.getStart(sourceFile), end: property.name.getEnd() });
+        } else if (value.valueStart !== undefined) {
+          matches.push({
+            ...match,
+            start: value.valueStart + match.start - valueOffset,
+            end: value.valueStart + match.end - valueOffset
+          });
+        }
+      }
+    }
+  }
+
+  private unwrap(initializer: ts.Node | undefined): ts.Node | undefined {
+    return initializer && ts.isJsxExpression(initializer) ? initializer.expression : initializer;
+  }
+
+  private hasStaticName(property: ts.PropertyAssignment): property is ts.PropertyAssignment & { name: ts.Identifier | ts.StringLiteral } {
+    return ts.isIdentifier(property.name) || ts.isStringLiteral(property.name);
+  }
+
+  private getLiteralValue(node: ts.Node | undefined, sourceFile: ts.SourceFile): Pick<HtmlAttribute, 'value' | 'valueStart' | 'valueEnd'> {
+    if (node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) {
+      // Offsets exclude the quotes
+      return { value: node.text, valueStart: node.getStart(sourceFile) + 1, valueEnd: node.getEnd() - 1 };
+    }
+    if (node && ts.isNumericLiteral(node)) {
+      return { value: node.text, valueStart: node.getStart(sourceFile), valueEnd: node.getEnd() };
+    }
+    return {};
+  }
+}
+
+/**
+ * `containerType` → `container-type`, `WebkitLineClamp` → `-webkit-line-clamp`.
+ * Custom properties are left alone.
+ */
+export function toCssPropertyName(name: string): string {
+  if (name.startsWith('--')) {
+    return name;
+  }
+  const kebab = name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+  return /^(webkit|moz|ms)-/.test(kebab) ? `-${kebab}` : kebab;
+}
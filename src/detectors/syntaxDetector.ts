@@ -0,0 +1,199 @@
+// src/detectors/syntaxDetector.ts
+import * as ts from 'typescript';
+import { FeatureMatch } from './types';
+import { SYNTAX_FEATURES, SyntaxFeatureName } from '../utils/syntaxFeatures';
+
+const REGEXP_FLAGS: { [flag: string]: SyntaxFeatureName } = {
+  d: 'regexp-flag-d',
+  s: 'regexp-flag-s',
+  v: 'regexp-flag-v'
+};
+
+/**
+ * Recognises ECMAScript syntax features from the syntax tree, so operators,
+ * class members and module syntax are found by node kind rather than by
+ * matching source text. Findings point at the operator, member name or
+ * keyword that needs the feature.
+ */
+export class SyntaxFeatureDetector {
+  detect(sourceFile: ts.SourceFile): FeatureMatch[] {
+    const matches: FeatureMatch[] = [];
+    // TypeScript property declarations without an initializer are type-only
+    const isTypeScript = /\.(ts|mts|cts|tsx)$/.test(sourceFile.fileName);
+
+    const report = (name: SyntaxFeatureName, start: number, end: number) => {
+      const feature = SYNTAX_FEATURES[name];
+      matches.push({
+        featureId: feature.featureId,
+        start,
+        end,
+        confidence: 1.0,
+        detail: feature.description,
+        esVersion: feature.esVersion,
+        compatKeys: [feature.compatKey]
+      });
+    };
+    const reportNode = (name: SyntaxFeatureName, node: ts.Node) => report(name, node.getStart(sourceFile), node.getEnd());
+
+    const visit = (node: ts.Node, insideFunction: boolean) => {
+      // Declarations never reach the runtime
+      if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) || ts.isModuleDeclaration(node) ||
+          (ts.isTypeNode(node) && !ts.isExpressionWithTypeArguments(node))) {
+        return;
+      }
+
+      if ((ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node) || ts.isCallExpression(node)) &&
+          node.questionDotToken) {
+        reportNode('optional-chaining', node.questionDotToken);
+      } else if (ts.isBinaryExpression(node)) {
+        this.checkBinaryExpression(node, reportNode);
+      } else if (ts.isClassElement(node) && ts.isClassLike(node.parent)) {
+        this.checkClassElement(node, isTypeScript, reportNode, sourceFile);
+      } else if ((ts.isAwaitExpression(node) || (ts.isForOfStatement(node) && node.awaitModifier)) && !insideFunction) {
+        const keyword = ts.isAwaitExpression(node) ? node.getFirstToken(sourceFile)! : node.awaitModifier!;
+        reportNode('top-level-await', keyword);
+      } else if ((ts.isNumericLiteral(node) || ts.isBigIntLiteral(node)) && node.getText(sourceFile).includes('_')) {
+        reportNode('numeric-separators', node);
+      } else if (ts.isRegularExpressionLiteral(node)) {
+        this.checkRegExpFlags(node, report, sourceFile);
+      } else if (ts.isMetaProperty(node) && node.keywordToken === ts.SyntaxKind.ImportKeyword) {
+        reportNode('import-meta', node);
+      } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        reportNode('dynamic-import', node.expression);
+        this.checkDynamicImportOptions(node, reportNode);
+      } else if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.attributes) {
+        this.checkImportAttributes(node.attributes, reportNode);
+      }
+
+      const entersFunction = insideFunction || ts.isFunctionLike(node) || ts.isClassStaticBlockDeclaration(node);
+      ts.forEachChild(node, child => visit(child, entersFunction));
+    };
+
+    visit(sourceFile, false);
+    return matches;
+  }
+
+  private checkBinaryExpression(node: ts.BinaryExpression, reportNode: (name: SyntaxFeatureName, node: ts.Node) => void) {
+    switch (node.operatorToken.kind) {
+      case ts.SyntaxKind.QuestionQuestionToken:
+        reportNode('nullish-coalescing', node.operatorToken);
+        break;
+      case ts.SyntaxKind.QuestionQuestionEqualsToken:
+        reportNode('nullish-coalescing-assignment', node.operatorToken);
+        break;
+      case ts.SyntaxKind.AmpersandAmpersandEqualsToken:
+        reportNode('logical-and-assignment', node.operatorToken);
+        break;
+      case ts.SyntaxKind.BarBarEqualsToken:
+        reportNode('logical-or-assignment', node.operatorToken);
+        break;
+      case ts.SyntaxKind.InKeyword:
+        // #field in obj
+        if (ts.isPrivateIdentifier(node.left)) {
+          reportNode('private-in', node.left);
+        }
+        break;
+    }
+  }
+
+  private checkClassElement(
+    node: ts.ClassElement,
+    isTypeScript: boolean,
+    reportNode: (name: SyntaxFeatureName, node: ts.Node) => void,
+    sourceFile: ts.SourceFile
+  ) {
+    if (ts.isClassStaticBlockDeclaration(node)) {
+      reportNode('static-blocks', node.getFirstToken(sourceFile)!);
+      return;
+    }
+
+    const name = node.name;
+    if (name && ts.isPrivateIdentifier(name)) {
+      reportNode(ts.isPropertyDeclaration(node) ? 'private-class-fields' : 'private-class-methods', name);
+      return;
+    }
+
+    if (!ts.isPropertyDeclaration(node) || !name) {
+      return;
+    }
+
+    const modifiers = ts.getModifiers(node) || [];
+    if (modifiers.some(m => m.kind === ts.SyntaxKind.DeclareKeyword || m.kind === ts.SyntaxKind.AbstractKeyword)) {
+      return;
+    }
+    if (isTypeScript && !node.initializer) {
+      return;
+    }
+
+    const isStatic = modifiers.some(m => m.kind === ts.SyntaxKind.StaticKeyword);
+    reportNode(isStatic ? 'static-class-fields' : 'public-class-fields', name);
+  }
+
+  private checkRegExpFlags(
+    node: ts.RegularExpressionLiteral,
+    report: (name: SyntaxFeatureName, start: number, end: number) => void,
+    sourceFile: ts.SourceFile
+  ) {
+    const text = node.getText(sourceFile);
+    const flagsStart = text.lastIndexOf('/') + 1;
+    const start = node.getStart(sourceFile);
+
+    for (let i = flagsStart; i < text.length; i++) {
+      const name = REGEXP_FLAGS[text[i]];
+      if (name) {
+        report(name, start + i, start + i + 1);
+      }
+    }
+  }
+
+  // import('./data.json', { with: { type: 'json' } })
+  private checkDynamicImportOptions(node: ts.CallExpression, reportNode: (name: SyntaxFeatureName, node: ts.Node) => void) {
+    const options = node.arguments[1];
+    if (!options || !ts.isObjectLiteralExpression(options)) {
+      return;
+    }
+
+    for (const property of options.properties) {
+      if (!ts.isPropertyAssignment(property) || !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+        continue;
+      }
+      const key = property.name.text;
+      if (key !== 'with' && key !== 'assert') {
+        continue;
+      }
+
+      reportNode(key === 'with' ? 'import-attributes' : 'import-assertions', property.name);
+      if (key === 'with' && ts.isObjectLiteralExpression(property.initializer)) {
+        const type = property.initializer.properties.find(p =>
+          ts.isPropertyAssignment(p) && (ts.isIdentifier(p.name) || ts.isStringLiteral(p.name)) && p.name.text === 'type'
+        ) as ts.PropertyAssignment | undefined;
+        if (type && ts.isStringLiteral(type.initializer)) {
+          this.reportModuleType(type.initializer.text, type, reportNode);
+        }
+      }
+    }
+  }
+
+  // import data from './data.json' with { type: 'json' }
+  private checkImportAttributes(attributes: ts.ImportAttributes, reportNode: (name: SyntaxFeatureName, node: ts.Node) => void) {
+    if (attributes.token === ts.SyntaxKind.AssertKeyword) {
+      reportNode('import-assertions', attributes);
+      return;
+    }
+
+    reportNode('import-attributes', attributes);
+    for (const attribute of attributes.elements) {
+      if (attribute.name.text === 'type' && ts.isStringLiteral(attribute.value)) {
+        this.reportModuleType(attribute.value.text, attribute, reportNode);
+      }
+    }
+  }
+
+  private reportModuleType(type: string, node: ts.Node, reportNode: (name: SyntaxFeatureName, node: ts.Node) => void) {
+    if (type === 'json') {
+      reportNode('import-attributes-json', node);
+    } else if (type === 'css') {
+      reportNode('import-attributes-css', node);
+    }
+  }
+}
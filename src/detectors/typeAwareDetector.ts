@@ -0,0 +1,177 @@
+// src/detectors/typeAwareDetector.ts
+import * as ts from 'typescript';
+import * as path from 'path';
+import { FeatureMatch } from './types';
+import { getFeatureIdForSymbol } from '../utils/symbolFeatureMap';
+import { compatKeysForSymbol } from '../utils/subFeatures';
+
+const DOM_LIBS = ['lib.esnext.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'];
+export const WORKER_LIBS = ['lib.esnext.d.ts', 'lib.webworker.d.ts', 'lib.webworker.iterable.d.ts'];
+
+// Typed array interfaces, whose members BCD keys under `TypedArray`
+const TYPED_ARRAY_PATTERN = /^(Int8|Uint8|Uint8Clamped|Int16|Uint16|Int32|Uint32|Float16|Float32|Float64|BigInt64|BigUint64)Array$/;
+
+/**
+ * Resolves every property access, call and `new` expression through the
+ * TypeScript checker, so aliases (`const nav = navigator`), qualified access
+ * (`window.navigator.share`) and destructuring are matched by declaration
+ * rather than by shape.
+ */
+export class TypeAwareDetector {
+  // Lib files are parsed and bound once, then shared by every program
+  private libFiles = new Map<string, ts.SourceFile>();
+
+  detect(fileName: string, text: string, scriptKind: ts.ScriptKind, libs: string[] = DOM_LIBS): FeatureMatch[] {
+    // The program asks for files by their forward-slash paths
+    fileName = fileName.replace(/\\/g, '/');
+    const options: ts.CompilerOptions = {
+      target: ts.ScriptTarget.ESNext,
+      lib: libs,
+      allowJs: true,
+      noEmit: true,
+      noResolve: true,
+      // Top-level declarations stay local to the file, so they shadow globals
+      moduleDetection: ts.ModuleDetectionKind.Force,
+      types: [],
+      jsx: ts.JsxEmit.Preserve
+    };
+
+    const program = ts.createProgram({
+      rootNames: [fileName],
+      options,
+      host: this.createCompilerHost(options, fileName, text, scriptKind)
+    });
+    // Parsed by the host with the program's options, which make it a module
+    const sourceFile = program.getSourceFile(fileName)!;
+    const checker = program.getTypeChecker();
+    const matches: FeatureMatch[] = [];
+
+    const report = (node: ts.Node, symbol: ts.Symbol | undefined) => {
+      const symbolKey = symbol && this.getSymbolKey(symbol, checker, program);
+      const featureId = symbolKey && getFeatureIdForSymbol(symbolKey);
+      if (featureId) {
+        matches.push({
+          featureId,
+          start: node.getStart(sourceFile),
+          end: node.getEnd(),
+          confidence: 1.0,
+          detail: symbolKey,
+          compatKeys: compatKeysForSymbol(symbolKey)
+        });
+      }
+    };
+
+    const visit = (node: ts.Node) => {
+      // Type positions never reach the browser
+      if (ts.isTypeNode(node) && !ts.isExpressionWithTypeArguments(node)) {
+        return;
+      }
+      if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) || ts.isImportDeclaration(node)) {
+        return;
+      }
+
+      if (ts.isPropertyAccessExpression(node)) {
+        report(node, checker.getSymbolAtLocation(node.name));
+      } else if (ts.isIdentifier(node) && this.isValueReference(node)) {
+        report(node, checker.getSymbolAtLocation(node));
+      } else if (ts.isBindingElement(node) && ts.isObjectBindingPattern(node.parent)) {
+        // const { clipboard } = navigator
+        const propertyName = node.propertyName || node.name;
+        if (ts.isIdentifier(propertyName)) {
+          const type = checker.getTypeAtLocation(node.parent);
+          report(node, type.getProperty(propertyName.text));
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return matches;
+  }
+
+  private createCompilerHost(
+    options: ts.CompilerOptions,
+    rootName: string,
+    text: string,
+    scriptKind: ts.ScriptKind
+  ): ts.CompilerHost {
+    const libLocation = path.dirname(ts.getDefaultLibFilePath(options));
+
+    return {
+      getSourceFile: (fileName, languageVersion) => {
+        if (fileName === rootName) {
+          return ts.createSourceFile(fileName, text, languageVersion, true, scriptKind);
+        }
+        let libFile = this.libFiles.get(fileName);
+        if (!libFile) {
+          const content = ts.sys.readFile(fileName);
+          if (content === undefined) {
+            return undefined;
+          }
+          libFile = ts.createSourceFile(fileName, content, languageVersion);
+          this.libFiles.set(fileName, libFile);
+        }
+        return libFile;
+      },
+      getDefaultLibFileName: () => ts.getDefaultLibFilePath(options),
+      getDefaultLibLocation: () => libLocation,
+      writeFile: () => undefined,
+      getCurrentDirectory: () => path.dirname(rootName),
+      getCanonicalFileName: fileName => fileName,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: fileName => fileName === rootName || this.libFiles.has(fileName) || ts.sys.fileExists(fileName),
+      readFile: fileName => fileName === rootName ? text : ts.sys.readFile(fileName)
+    };
+  }
+
+  private isValueReference(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    // Property names are resolved through their PropertyAccessExpression
+    if (ts.isPropertyAccessExpression(parent) && parent.name === node) {
+      return false;
+    }
+    // Skip the names of declarations and object literal keys
+    if ((ts.isVariableDeclaration(parent) || ts.isFunctionDeclaration(parent) || ts.isClassDeclaration(parent) ||
+         ts.isParameter(parent) || ts.isPropertyAssignment(parent) || ts.isMethodDeclaration(parent) ||
+         ts.isPropertyDeclaration(parent) || ts.isBindingElement(parent)) && parent.name === node) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Builds the `Interface.member` / global key of a symbol declared in a lib
+ * file. Members of `Uint8Array` and the other typed arrays are keyed as
+ * `TypedArray.member`.
+   */
+  private getSymbolKey(symbol: ts.Symbol, checker: ts.TypeChecker, program: ts.Program): string | undefined {
+    if (symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+
+    for (const declaration of symbol.declarations || []) {
+      if (!program.isSourceFileDefaultLibrary(declaration.getSourceFile())) {
+        continue;
+      }
+
+      const name = symbol.name;
+      const parent = declaration.parent;
+
+      if ((ts.isInterfaceDeclaration(parent) || ts.isClassDeclaration(parent)) && parent.name) {
+        const owner = parent.name.text.replace(/Constructor$/, '');
+        return `${TYPED_ARRAY_PATTERN.test(owner) ? 'TypedArray' : owner}.${name}`;
+      }
+      // declare var AbortSignal: { timeout(...): AbortSignal; ... }
+      if (ts.isTypeLiteralNode(parent) && ts.isVariableDeclaration(parent.parent) && ts.isIdentifier(parent.parent.name)) {
+        return `${parent.parent.name.text}.${name}`;
+      }
+      if (ts.isSourceFile(parent) || ts.isVariableDeclarationList(parent)) {
+        return name;
+      }
+    }
+
+    return undefined;
+  }
+}
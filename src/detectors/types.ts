@@ -0,0 +1,21 @@
+// src/detectors/types.ts
+
+/**
+ * A feature occurrence found by one of the detection passes.
+ * Offsets are relative to the text that was handed to the pass.
+ */
+export interface FeatureMatch {
+  featureId: string;
+  start: number;
+  end: number;
+  confidence: number;
+  // What matched, e.g. the resolved symbol `Navigator.share`
+  detail?: string;
+  // The feature test protecting this use, e.g. `@supports (display: grid)`
+  guard?: string;
+  // For syntax a compiler can lower: the ECMAScript edition that added it
+  esVersion?: number;
+  // BCD keys that may name the sub-feature used, most specific first,
+  // e.g. `css.properties.display.grid`; `*.name` matches any key ending in `.name`
+  compatKeys?: string[];
+}
@@ -2,11 +2,22 @@
 import * as vscode from 'vscode';
 import { EnhancedFeatureDetector, EnhancedDetectedFeature } from './enhancedFeatureDetector';
 import { WebFeature } from './webStatusApi';
+import { TargetGap } from './services/browserTargets';
+import { projectWidelyAvailable } from './utils/baselinePolicy';
+import { describeCaveats } from './utils/subFeatures';
+import { describeImpact } from './utils/impact';
+import { SettingsService } from './services/settings';
+
+// Source files a workspace scan analyzes, and the folders it skips
+const WORKSPACE_SOURCES = '**/*.{js,mjs,cjs,jsx,ts,mts,cts,tsx,css,scss,less,html,htm,vue,svelte}';
+const WORKSPACE_EXCLUDES = '**/{node_modules,bower_components,dist,build,out,coverage,.git}/**';
+const MAX_SCANNED_FILES = 2000;
 
 export class CompatibilityDiagnosticProvider {
   private diagnosticCollection: vscode.DiagnosticCollection;
   private featureDetector: EnhancedFeatureDetector;
   private outputChannel: vscode.OutputChannel | undefined;
+  private results = new Map<string, EnhancedDetectedFeature[]>();
 
   constructor() {
     this.diagnosticCollection = vscode.languages.createDiagnosticCollection('baselineGuard');
@@ -28,6 +39,7 @@ export class CompatibilityDiagnosticProvider {
       );
 
       this.diagnosticCollection.set(document.uri, diagnostics);
+      this.results.set(document.uri.toString(), detectedFeatures);
       
       const analysisTime = Date.now() - startTime;
       
@@ -51,7 +63,11 @@ export class CompatibilityDiagnosticProvider {
     document: vscode.TextDocument
   ): vscode.Diagnostic {
     const feature = detected.feature;
-    const message = this.createDeveloperFriendlyMessage(feature, document.languageId, detected.confidence);
+    const message = this.createDeveloperFriendlyMessage(
+      feature,
+      document.languageId,
+      detected
+    );
     
     const diagnostic = new vscode.Diagnostic(
       detected.range,
@@ -72,7 +88,12 @@ export class CompatibilityDiagnosticProvider {
     return diagnostic;
   }
 
-  private createDeveloperFriendlyMessage(feature: WebFeature, language: string, confidence: number): string {
+  private createDeveloperFriendlyMessage(
+    feature: WebFeature,
+    language: string,
+    detected: EnhancedDetectedFeature
+  ): string {
+    const { confidence, unsupportedTargets, policyVerdict, guard, transpiled, polyfilled, subFeature, impact } = detected;
     const baselineStatus = feature.baseline?.status || 'unknown';
     const statusEmoji = this.getStatusEmoji(baselineStatus);
     
@@ -81,7 +102,8 @@ export class CompatibilityDiagnosticProvider {
       .filter(impl => impl.status === 'available').length;
     const totalBrowsers = Object.keys(feature.browser_implementations).length;
 
-    let message = `${statusEmoji} ${feature.name}\n`;
+    // A sub-feature is named by its BCD key, e.g. `<dialog>: html.elements.dialog.closedby`
+    let message = `${statusEmoji} ${feature.name}${subFeature ? `: ${subFeature}` : ''}\n`;
     message += `Browser Support: ${supportedCount}/${totalBrowsers} browsers`;
     
     // Add confidence indicator
@@ -90,6 +112,45 @@ export class CompatibilityDiagnosticProvider {
       message += ` (${confidencePercent}% confidence)`;
     }
 
+    // Baseline target policy verdict
+    if (policyVerdict) {
+      message += `\n${policyVerdict.inPolicy ? 'Within' : 'Outside'} your Baseline target: ${policyVerdict.reason}`;
+    }
+
+    // Name the targeted browsers that lack the feature
+    if (unsupportedTargets && unsupportedTargets.length > 0) {
+      message += `\nMissing in your targets: ${unsupportedTargets.map(gap => this.formatTargetGap(gap)).join(', ')}`;
+    }
+
+    // How many users it affects
+    if (impact && impact.score > 0) {
+      message += `\n📉 ${describeImpact(impact)}`;
+    }
+
+    // Prefixed, flagged or partial support
+    const caveats = describeCaveats(feature);
+    if (caveats.length > 0) {
+      message += `\n🔤 ${caveats.join(' · ')}`;
+    }
+
+    // Feature-tested code already has its fallback
+    if (guard) {
+      message += `\n🛡️ Guarded by ${guard}`;
+      return message;
+    }
+
+    // The project ships its own implementation
+    if (polyfilled) {
+      message += `\n🩹 Polyfilled by ${polyfilled}`;
+      return message;
+    }
+
+    // Compiled down before it ships
+    if (transpiled) {
+      message += `\n🔧 Transpiled by ${transpiled}`;
+      return message;
+    }
+
     // Add specific guidance based on language
     const guidance = this.getLanguageSpecificGuidance(feature, language);
     if (guidance) {
@@ -131,7 +192,7 @@ export class CompatibilityDiagnosticProvider {
     );
 
     // Detection method
-    const methodEmoji = detected.detectionMethod === 'ast' ? '🎯' : '🔍';
+    const methodEmoji = this.getDetectionMethodEmoji(detected.detectionMethod);
     related.push(new vscode.DiagnosticRelatedInformation(
       dummyLocation,
       `${methodEmoji} Detected using: ${detected.detectionMethod.toUpperCase()} analysis`
@@ -146,6 +207,25 @@ export class CompatibilityDiagnosticProvider {
       ));
     }
 
+    // Baseline target policy
+    if (detected.policyVerdict) {
+      related.push(new vscode.DiagnosticRelatedInformation(
+        dummyLocation,
+        `📏 ${detected.policyVerdict.inPolicy ? 'In policy' : 'Out of policy'}: ${detected.policyVerdict.reason}`
+      ));
+    }
+
+    // Browserslist targets
+    if (detected.unsupportedTargets) {
+      const targetsText = detected.unsupportedTargets.length > 0
+        ? `Not supported by your browser targets: ${detected.unsupportedTargets.map(gap => this.formatTargetGap(gap)).join(', ')}`
+        : 'Supported by all of your browser targets';
+      related.push(new vscode.DiagnosticRelatedInformation(
+        dummyLocation,
+        `🎯 ${targetsText}`
+      ));
+    }
+
     // Browser support - grouped by status
     const supported: string[] = [];
     const unsupported: string[] = [];
@@ -173,6 +253,24 @@ export class CompatibilityDiagnosticProvider {
       ));
     }
 
+    // What partial support leaves out
+    Object.entries(feature.browser_implementations).forEach(([browser, impl]) => {
+      for (const note of (impl.caveats || []).flatMap(caveat => caveat.notes || [])) {
+        related.push(new vscode.DiagnosticRelatedInformation(
+          dummyLocation,
+          `📝 ${this.formatBrowserName(browser)}: ${note}`
+        ));
+      }
+    });
+
+    // Impact ranking
+    if (detected.impact) {
+      related.push(new vscode.DiagnosticRelatedInformation(
+        dummyLocation,
+        `📉 ${describeImpact(detected.impact)}`
+      ));
+    }
+
     // Usage statistics
     if (feature.usage?.chrome?.daily) {
       const usagePercent = (feature.usage.chrome.daily * 100).toFixed(4);
@@ -191,15 +289,19 @@ export class CompatibilityDiagnosticProvider {
     return related;
   }
 
-  private getDetailedBaselineStatus(baseline: { status: string; low_date?: string }): string {
+  private getDetailedBaselineStatus(baseline: { status: string; low_date?: string; high_date?: string }): string {
     const status = baseline.status;
     const date = baseline.low_date;
     
     switch (status) {
       case 'widely':
-        return `Widely available (Baseline since ${date || 'N/A'})`;
+        return baseline.high_date
+          ? `Widely available since ${baseline.high_date} (Baseline since ${date || 'N/A'})`
+          : `Widely available (Baseline since ${date || 'N/A'})`;
       case 'newly':
-        return `Newly available (Baseline since ${date || 'N/A'}) - Use with caution`;
+        return date
+          ? `Newly available (Baseline since ${date}, widely available ~${projectWidelyAvailable(date)}) - Use with caution`
+          : `Newly available - Use with caution`;
       case 'limited':
         return `Limited availability - Consider fallbacks`;
       default:
@@ -207,6 +309,15 @@ export class CompatibilityDiagnosticProvider {
     }
   }
 
+  private getDetectionMethodEmoji(method: EnhancedDetectedFeature['detectionMethod']): string {
+    switch (method) {
+      case 'ast': return '🎯';
+      case 'typechecker': return '🧠';
+      case 'parser': return '🧩';
+      default: return '🔍';
+    }
+  }
+
   private getStatusEmoji(status: string): string {
     switch (status) {
       case 'widely': return '✅';
@@ -216,6 +327,12 @@ export class CompatibilityDiagnosticProvider {
     }
   }
 
+  private formatTargetGap(gap: TargetGap): string {
+    return gap.supportedSince
+      ? `${gap.browserName} ${gap.targetVersion} (needs ${gap.supportedSince}+)`
+      : `${gap.browserName} ${gap.targetVersion} (no support)`;
+  }
+
   private formatBrowserName(browser: string): string {
     const names: { [key: string]: string } = {
       'chrome': 'Chrome',
@@ -229,8 +346,76 @@ export class CompatibilityDiagnosticProvider {
     return names[browser] || browser;
   }
 
+  getDetectedFeatures(uri: vscode.Uri): EnhancedDetectedFeature[] {
+    return this.results.get(uri.toString()) || [];
+  }
+
+  /**
+   * Findings in the open documents analyzed so far, most impactful first.
+   */
+  getFindings(): Array<{ uri: vscode.Uri; detected: EnhancedDetectedFeature }> {
+    const findings: Array<{ uri: vscode.Uri; detected: EnhancedDetectedFeature }> = [];
+    for (const [uri, features] of this.results) {
+      features.forEach(detected => findings.push({ uri: vscode.Uri.parse(uri), detected }));
+    }
+    return findings.sort((a, b) => (b.detected.impact?.score ?? 0) - (a.detected.impact?.score ?? 0));
+  }
+
+  /**
+   * Feature IDs found in the open documents analyzed so far.
+   */
+  getAnalyzedFeatureIds(): Set<string> {
+    const ids = new Set<string>();
+    for (const features of this.results.values()) {
+      features.forEach(detected => ids.add(detected.feature.feature_id));
+    }
+    return ids;
+  }
+
+  /**
+   * Feature IDs used anywhere in the workspace: those in the open documents
+   * analyzed so far, plus those the detector finds in the workspace's other
+   * source files, up to MAX_SCANNED_FILES of them. Reports no diagnostics
+   * for the scanned files.
+   */
+  async scanWorkspaceFeatureIds(token?: vscode.CancellationToken): Promise<Set<string>> {
+    const ids = this.getAnalyzedFeatureIds();
+    const files = await vscode.workspace.findFiles(WORKSPACE_SOURCES, WORKSPACE_EXCLUDES, MAX_SCANNED_FILES, token);
+    const startTime = Date.now();
+    let scanned = 0;
+
+    for (const uri of files) {
+      if (token?.isCancellationRequested) {
+        break;
+      }
+      if (this.results.has(uri.toString()) || !SettingsService.getInstance().get(uri).enabled) {
+        continue;
+      }
+      try {
+        const document = await vscode.workspace.openTextDocument(uri);
+        for (const detected of await this.featureDetector.detectFeatures(document)) {
+          ids.add(detected.feature.feature_id);
+        }
+        scanned++;
+      } catch (error) {
+        this.outputChannel?.appendLine(`⚠️ Skipped ${uri.fsPath} in the workspace scan: ${error}`);
+      }
+    }
+
+    this.outputChannel?.appendLine(
+      `🗂️ Scanned ${scanned} workspace files in ${Date.now() - startTime}ms: ${ids.size} features in use` +
+      (files.length === MAX_SCANNED_FILES ? ` (stopped at ${MAX_SCANNED_FILES} files)` : '')
+    );
+    return ids;
+  }
+
+  clearCache() {
+    this.featureDetector.clearCache();
+  }
+
   clearDiagnostics(document: vscode.TextDocument) {
     this.diagnosticCollection.delete(document.uri);
+    this.results.delete(document.uri.toString());
   }
 
   dispose() {
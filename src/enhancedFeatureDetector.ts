@@ -3,6 +3,26 @@ import * as vscode from 'vscode';
 import * as ts from 'typescript';
 import { WebStatusApiClient, WebFeature } from './webStatusApi';
 import { ENHANCED_WEB_PATTERNS, PatternInfo } from './utils/enhancedPatterns';
+import { BrowserTargetsService, BrowserTargets, TargetGap } from './services/browserTargets';
+import { RuleSetting, WorkspaceConfigService } from './services/workspaceConfig';
+import { TranspileTargetService, lowersSyntax } from './services/transpileTargets';
+import { PolyfillCoverage, PolyfillService } from './services/polyfills';
+import { Runtime, RuntimeContextService, isAvailableInWorkers } from './services/runtimeContext';
+import { BaselinePolicy, PolicyVerdict, evaluatePolicy, parseBaselineTarget } from './utils/baselinePolicy';
+import { TypeAwareDetector, WORKER_LIBS } from './detectors/typeAwareDetector';
+import { CssFeatureDetector } from './detectors/cssDetector';
+import { CssSyntax } from './detectors/cssParser';
+import { HtmlDetectionResult, HtmlDialect, HtmlFeatureDetector } from './detectors/htmlDetector';
+import { JsxFeatureDetector } from './detectors/jsxDetector';
+import { ApiFeatureDetector } from './detectors/apiDetector';
+import { SyntaxFeatureDetector } from './detectors/syntaxDetector';
+import { CssInJsDetector } from './detectors/cssInJsDetector';
+import { GuardDetector, GuardRegion, findGuard } from './detectors/guardDetector';
+import { FeatureMatch } from './detectors/types';
+import { Suppressions, parseSuppressions } from './utils/suppressions';
+import { findSubFeature, withSubFeature } from './utils/subFeatures';
+import { Audience, Impact, computeImpact } from './utils/impact';
+import { SeverityLevel, SettingsService, StatusSeverities } from './services/settings';
 
 export interface EnhancedDetectedFeature {
   feature: WebFeature;
@@ -10,11 +30,54 @@ export interface EnhancedDetectedFeature {
   severity: vscode.DiagnosticSeverity;
   confidence: number;
   context: string;
-  detectionMethod: 'ast' | 'regex';
+  detectionMethod: 'ast' | 'regex' | 'typechecker' | 'parser';
+  // Set when the project has browser targets: the targeted browsers lacking the feature
+  unsupportedTargets?: TargetGap[];
+  // Set when a Baseline target is configured: whether the feature meets it
+  policyVerdict?: PolicyVerdict;
+  // Set when the use sits behind a feature test: the test's source
+  guard?: string;
+  // Set when the project's compiler rewrites this syntax: the target that does it
+  transpiled?: string;
+  // Set when the project loads a polyfill for the feature: the polyfill and where it is loaded
+  polyfilled?: string;
+  // Set when the use is of a sub-feature with its own status: its BCD key. `feature` then
+  // carries the sub-feature's Baseline status and support
+  subFeature?: string;
+  // How many users the finding affects; findings are sorted by it, highest first
+  impact?: Impact;
 }
 
+const RULE_SEVERITIES: { [rule in Exclude<RuleSetting, 'off' | 'on'>]: vscode.DiagnosticSeverity } = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint
+};
+
+const STATUS_SEVERITIES: { [level in Exclude<SeverityLevel, 'off'>]: vscode.DiagnosticSeverity } = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint
+};
+
 export class EnhancedFeatureDetector {
   private apiClient = WebStatusApiClient.getInstance();
+  private targetsService = BrowserTargetsService.getInstance();
+  private workspaceConfig = WorkspaceConfigService.getInstance();
+  private transpileTargets = TranspileTargetService.getInstance();
+  private polyfills = PolyfillService.getInstance();
+  private runtimeContext = RuntimeContextService.getInstance();
+  private settings = SettingsService.getInstance();
+  private typeAwareDetector = new TypeAwareDetector();
+  private cssDetector = new CssFeatureDetector();
+  private htmlDetector = new HtmlFeatureDetector();
+  private jsxDetector = new JsxFeatureDetector();
+  private apiDetector = new ApiFeatureDetector();
+  private syntaxDetector = new SyntaxFeatureDetector();
+  private cssInJsDetector = new CssInJsDetector();
+  private guardDetector = new GuardDetector();
   private cache = new Map<string, EnhancedDetectedFeature[]>();
   private outputChannel?: vscode.OutputChannel;
 
@@ -28,33 +91,109 @@ export class EnhancedFeatureDetector {
 
     const detectedFeatures: EnhancedDetectedFeature[] = [];
     const language = document.languageId;
+    const config = this.workspaceConfig.getConfig(document);
+
+    // .baselineguard.json can switch off a language or exclude the file
+    if (config && !config.enabled) {
+      this.outputChannel?.appendLine(`⏭️ Skipping ${document.fileName} (disabled by ${config.files[config.files.length - 1]})`);
+      this.cache.set(cacheKey, []);
+      return [];
+    }
+
+    // Browser compatibility does not apply to code that only runs under Node.js
+    const runtime = this.isTypeScriptLike(language) ? this.runtimeContext.classify(document) : undefined;
+    if (runtime?.runtime === 'node') {
+      this.outputChannel?.appendLine(`⏭️ Skipping ${document.fileName} (Node.js: ${runtime.reason})`);
+      this.cache.set(cacheKey, []);
+      return [];
+    }
 
-    // Get patterns for this language
-    const patterns = ENHANCED_WEB_PATTERNS.filter(p => p.language.includes(language));
+    // Get patterns for this language, including user-defined ones
+    const allPatterns = config ? [...ENHANCED_WEB_PATTERNS, ...config.patterns] : ENHANCED_WEB_PATTERNS;
+    const patterns = allPatterns.filter(p => p.language.includes(language));
 
     this.outputChannel?.appendLine(`\n========================================`);
     this.outputChannel?.appendLine(`📄 Analyzing: ${document.fileName}`);
     this.outputChannel?.appendLine(`🔤 Language: ${language}`);
     this.outputChannel?.appendLine(`📊 Available patterns: ${patterns.length}`);
+    if (config) {
+      this.outputChannel?.appendLine(`⚙️ Config: ${config.files.join(' → ')}`);
+    }
     this.outputChannel?.appendLine(`========================================\n`);
 
-    // Use AST for TypeScript/JavaScript
+    // Use AST (and the type checker when enabled) for TypeScript/JavaScript
     if (this.isTypeScriptLike(language)) {
-      this.outputChannel?.appendLine(`🎯 Running AST analysis...`);
-      const astFeatures = await this.detectWithAST(document, patterns);
-      detectedFeatures.push(...astFeatures);
-      this.outputChannel?.appendLine(`✅ AST detected: ${astFeatures.length} features\n`);
+      const scriptFeatures = await this.detectInScript(document, document.getText(), language, patterns, 0, runtime?.runtime);
+      detectedFeatures.push(...scriptFeatures);
     }
 
-    // Use regex for all languages (including fallback)
-    this.outputChannel?.appendLine(`🔍 Running REGEX analysis...`);
-    const regexFeatures = await this.detectWithRegex(document, patterns);
-    detectedFeatures.push(...regexFeatures);
-    this.outputChannel?.appendLine(`✅ REGEX detected: ${regexFeatures.length} features\n`);
+    // Use the CSS parser for stylesheets
+    if (this.isStylesheet(language)) {
+      this.outputChannel?.appendLine(`🧩 Running CSS PARSER analysis...`);
+      const cssFeatures = this.detectWithCssParser(document.getText(), language as CssSyntax, document);
+      detectedFeatures.push(...cssFeatures);
+      this.outputChannel?.appendLine(`✅ CSS PARSER detected: ${cssFeatures.length} features\n`);
+    }
 
-    // Remove duplicates and filter by confidence
-    const filtered = this.filterAndDeduplicateFeatures(detectedFeatures);
+    // Use the HTML parser for markup and components, including embedded <style> and <script>
+    if (this.isMarkup(language)) {
+      this.outputChannel?.appendLine(`🧩 Running HTML PARSER analysis...`);
+      const htmlFeatures = await this.detectWithHtmlParser(document, language as HtmlDialect, allPatterns);
+      detectedFeatures.push(...htmlFeatures);
+      this.outputChannel?.appendLine(`✅ HTML PARSER detected: ${htmlFeatures.length} features\n`);
+    }
+
+    // Use regex for the remaining languages (script languages ran it above)
+    if (!this.isTypeScriptLike(language)) {
+      this.outputChannel?.appendLine(`🔍 Running REGEX analysis...`);
+      const regexFeatures = await this.detectWithRegex(document, document.getText(), language, patterns);
+      detectedFeatures.push(...regexFeatures);
+      this.outputChannel?.appendLine(`✅ REGEX detected: ${regexFeatures.length} features\n`);
+    }
+
+    const settings = this.settings.get(document.uri);
+
+    // Re-evaluate severity against the project's browserslist targets
+    const targets = this.targetsService.getTargets(document, config?.targets);
+    if (targets) {
+      this.applyBrowserTargets(detectedFeatures, targets);
+    }
+
+    // A Baseline target policy takes precedence over the fixed status buckets
+    const policy = getBaselinePolicy(document);
+    if (policy) {
+      this.applyBaselinePolicy(detectedFeatures, policy);
+    }
+
+    // Otherwise the status buckets apply; statuses set to "off" are dropped either way
+    const judged = this.dropStatusesOff(detectedFeatures, settings.severity);
+
+    // Feature-tested code has a fallback path, so it never warns
+    this.applyGuards(judged);
+
+    // Polyfilled APIs exist at runtime whatever the browser ships
+    const polyfills = this.polyfills.getCoverage(document);
+    if (polyfills) {
+      this.applyPolyfills(judged, polyfills);
+    }
+
+    // Syntax the compiler lowers never reaches the browser as written
+    const shipped = this.applyTranspiled(judged, settings.transpiledSyntax);
+
+    // Per-feature rules from .baselineguard.json have the last word
+    const ruled = config ? this.applyRules(shipped, config.rules) : shipped;
+
+    // Remove duplicates, suppressed findings, low-confidence matches and, when hints are off, hints
+    const filtered = this.filterAndDeduplicateFeatures(
+      ruled,
+      parseSuppressions(document.getText()),
+      config?.minimumConfidence ?? settings.minimumConfidence,
+      settings.showHints
+    );
     
+    // Most impactful first, for the audience in .baselineguard.json if there is one
+    this.rankByImpact(filtered, config?.audience);
+
     this.outputChannel?.appendLine(`📊 Total before filtering: ${detectedFeatures.length}`);
     this.outputChannel?.appendLine(`✨ Total after filtering: ${filtered.length}\n`);
     
@@ -76,20 +215,152 @@ export class EnhancedFeatureDetector {
     return ['typescript', 'javascript', 'typescriptreact', 'javascriptreact'].includes(language);
   }
 
+  private isStylesheet(language: string): boolean {
+    return ['css', 'scss', 'less'].includes(language);
+  }
+
+  private isMarkup(language: string): boolean {
+    return ['html', 'vue', 'svelte'].includes(language);
+  }
+
+  /**
+   * Runs the script passes over `text`, which starts at `baseOffset` in the
+   * document: the whole file for JS/TS, or an inline <script> block.
+   */
+  private async detectInScript(
+    document: vscode.TextDocument,
+    text: string,
+    language: string,
+    patterns: PatternInfo[],
+    baseOffset = 0,
+    runtime: Runtime = 'browser'
+  ): Promise<EnhancedDetectedFeature[]> {
+    const detectedFeatures: EnhancedDetectedFeature[] = [];
+    const sourceFile = ts.createSourceFile(
+      document.fileName,
+      text,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(language)
+    );
+
+    this.outputChannel?.appendLine(`🎯 Running AST analysis...`);
+    const astFeatures = await this.detectWithAST(document, sourceFile, patterns, baseOffset);
+    detectedFeatures.push(...astFeatures);
+    this.outputChannel?.appendLine(`✅ AST detected: ${astFeatures.length} features\n`);
+
+    if (this.settings.get(document.uri).analysisMode === 'typeAware') {
+      this.outputChannel?.appendLine(`🧠 Running TYPE-AWARE analysis...`);
+      const typeAwareFeatures = this.detectWithTypeChecker(document, text, language, baseOffset, runtime);
+      detectedFeatures.push(...typeAwareFeatures);
+      this.outputChannel?.appendLine(`✅ TYPE-AWARE detected: ${typeAwareFeatures.length} features\n`);
+    }
+
+    this.outputChannel?.appendLine(`🔍 Running REGEX analysis...`);
+    const regexFeatures = await this.detectWithRegex(document, text, language, patterns, baseOffset);
+    detectedFeatures.push(...regexFeatures);
+    this.outputChannel?.appendLine(`✅ REGEX detected: ${regexFeatures.length} features\n`);
+
+    this.markGuardedFeatures(document, detectedFeatures, this.guardDetector.detect(sourceFile), baseOffset);
+
+    // Workers have no DOM, so DOM-only features cannot be used there at all
+    if (runtime === 'worker') {
+      return detectedFeatures.filter(detected => isAvailableInWorkers(detected.feature.feature_id));
+    }
+    return detectedFeatures;
+  }
+
+  private markGuardedFeatures(
+    document: vscode.TextDocument,
+    features: EnhancedDetectedFeature[],
+    regions: GuardRegion[],
+    baseOffset: number
+  ) {
+    for (const detected of features) {
+      if (detected.guard) {
+        continue;
+      }
+      const start = document.offsetAt(detected.range.start) - baseOffset;
+      const end = document.offsetAt(detected.range.end) - baseOffset;
+      const region = findGuard(regions, start, end, detected.feature.feature_id, document.getText(detected.range));
+      if (region) {
+        this.outputChannel?.appendLine(`   🛡️ ${detected.feature.feature_id} guarded by ${region.description}`);
+        detected.guard = region.description;
+      }
+    }
+  }
+
+  private async detectWithHtmlParser(
+    document: vscode.TextDocument,
+    dialect: HtmlDialect,
+    allPatterns: PatternInfo[]
+  ): Promise<EnhancedDetectedFeature[]> {
+    const detectedFeatures: EnhancedDetectedFeature[] = [];
+    const text = document.getText();
+
+    let result: HtmlDetectionResult;
+    try {
+      result = this.htmlDetector.detect(text, dialect);
+    } catch (error) {
+      this.outputChannel?.appendLine(`   ⚠️ HTML parsing failed: ${error}`);
+      return detectedFeatures;
+    }
+
+    for (const match of result.matches) {
+      const detected = this.toDetectedFeature(document, match, 'parser');
+      if (detected) {
+        this.outputChannel?.appendLine(`   ✅ ${match.detail} → ${match.featureId}`);
+        detectedFeatures.push(detected);
+      }
+    }
+
+    for (const region of result.embedded) {
+      const regionText = text.slice(region.start, region.end);
+
+      if (region.kind === 'script') {
+        this.outputChannel?.appendLine(`   📜 <script> (${region.language}) at offset ${region.start}`);
+        const scriptPatterns = allPatterns.filter(p => p.language.includes(region.language));
+        detectedFeatures.push(...await this.detectInScript(document, regionText, region.language, scriptPatterns, region.start));
+      } else {
+        detectedFeatures.push(...this.detectWithCssParser(regionText, region.language as CssSyntax, document, region.start));
+      }
+    }
+
+    return detectedFeatures;
+  }
+
+  private detectWithCssParser(
+    text: string,
+    syntax: CssSyntax,
+    document: vscode.TextDocument,
+    baseOffset = 0
+  ): EnhancedDetectedFeature[] {
+    const detectedFeatures: EnhancedDetectedFeature[] = [];
+
+    try {
+      for (const match of this.cssDetector.detect(text, syntax)) {
+        const detected = this.toDetectedFeature(document, match, 'parser', baseOffset);
+        if (detected) {
+          this.outputChannel?.appendLine(`   ✅ ${match.detail} → ${match.featureId}`);
+          detectedFeatures.push(detected);
+        }
+      }
+    } catch (error) {
+      this.outputChannel?.appendLine(`   ⚠️ CSS parsing failed: ${error}`);
+    }
+
+    return detectedFeatures;
+  }
+
   private async detectWithAST(
     document: vscode.TextDocument,
-    patterns: PatternInfo[]
+    sourceFile: ts.SourceFile,
+    patterns: PatternInfo[],
+    baseOffset = 0
   ): Promise<EnhancedDetectedFeature[]> {
     const detectedFeatures: EnhancedDetectedFeature[] = [];
     
     try {
-      const sourceFile = ts.createSourceFile(
-        document.fileName,
-        document.getText(),
-        ts.ScriptTarget.Latest,
-        true
-      );
-
       const astPatterns = patterns.filter(p => p.astPattern);
       this.outputChannel?.appendLine(`   AST patterns to check: ${astPatterns.length}`);
       
@@ -108,15 +379,12 @@ export class EnhancedFeatureDetector {
 
           this.outputChannel?.appendLine(`      ✅ Feature FOUND: ${feature.name}`);
 
-          const start = ts.getLineAndCharacterOfPosition(sourceFile, node.getStart());
-          const end = ts.getLineAndCharacterOfPosition(sourceFile, node.getEnd());
-          
-          const startPos = new vscode.Position(start.line, start.character);
-          const endPos = new vscode.Position(end.line, end.character);
+          const startPos = document.positionAt(baseOffset + node.getStart());
+          const endPos = document.positionAt(baseOffset + node.getEnd());
           const range = new vscode.Range(startPos, endPos);
           
           const context = this.getNodeContext(node, sourceFile);
-          const severity = this.getSeverity(feature);
+          const severity = this.getSeverity(feature, document);
           
           detectedFeatures.push({
             feature,
@@ -130,6 +398,46 @@ export class EnhancedFeatureDetector {
           this.outputChannel?.appendLine(`      ✅ ADDED TO RESULTS`);
         }
       }
+
+      // Web APIs and built-ins from the symbol table, including the generated rules
+      for (const match of this.apiDetector.detect(sourceFile)) {
+        const detected = this.toDetectedFeature(document, match, 'ast', baseOffset);
+        if (detected) {
+          this.outputChannel?.appendLine(`   ✅ API ${match.detail} → ${match.featureId}`);
+          detectedFeatures.push(detected);
+        }
+      }
+
+      // ECMAScript syntax: operators, class members, module syntax
+      const transpileTarget = this.transpileTargets.getTarget(document);
+      for (const match of this.syntaxDetector.detect(sourceFile)) {
+        const detected = this.toDetectedFeature(document, match, 'ast', baseOffset);
+        if (detected) {
+          this.outputChannel?.appendLine(`   ✅ Syntax ${match.detail} → ${match.featureId}`);
+          if (transpileTarget && match.esVersion && lowersSyntax(transpileTarget, match.esVersion)) {
+            detected.transpiled = transpileTarget.source;
+          }
+          detectedFeatures.push(detected);
+        }
+      }
+
+      // JSX elements, attributes and style objects
+      for (const match of this.jsxDetector.detect(sourceFile)) {
+        const detected = this.toDetectedFeature(document, match, 'ast', baseOffset);
+        if (detected) {
+          this.outputChannel?.appendLine(`   ✅ JSX ${match.detail} → ${match.featureId}`);
+          detectedFeatures.push(detected);
+        }
+      }
+
+      // CSS in tagged template literals (styled-components, emotion, lit)
+      for (const match of this.cssInJsDetector.detect(sourceFile, this.settings.get(document.uri).cssInJsTags)) {
+        const detected = this.toDetectedFeature(document, match, 'parser', baseOffset);
+        if (detected) {
+          this.outputChannel?.appendLine(`   ✅ CSS-in-JS ${match.detail} → ${match.featureId}`);
+          detectedFeatures.push(detected);
+        }
+      }
     } catch (error) {
       this.outputChannel?.appendLine(`   ⚠️ AST parsing failed: ${error}`);
     }
@@ -182,6 +490,92 @@ export class EnhancedFeatureDetector {
     return nodes;
   }
 
+  private detectWithTypeChecker(
+    document: vscode.TextDocument,
+    text: string,
+    language: string,
+    baseOffset = 0,
+    runtime: Runtime = 'browser'
+  ): EnhancedDetectedFeature[] {
+    const detectedFeatures: EnhancedDetectedFeature[] = [];
+
+    // Embedded scripts get a virtual name so the program accepts them as a root
+    const fileName = this.isTypeScriptLike(document.languageId)
+      ? document.fileName
+      : `${document.fileName}.${baseOffset}${this.getScriptExtension(language)}`;
+
+    try {
+      const libs = runtime === 'worker' ? WORKER_LIBS : undefined;
+      const matches = this.typeAwareDetector.detect(fileName, text, this.getScriptKind(language), libs);
+
+      for (const match of matches) {
+        const detected = this.toDetectedFeature(document, match, 'typechecker', baseOffset);
+        if (detected) {
+          this.outputChannel?.appendLine(`   ✅ ${match.detail} → ${match.featureId}`);
+          detectedFeatures.push(detected);
+        }
+      }
+    } catch (error) {
+      this.outputChannel?.appendLine(`   ⚠️ Type-aware analysis failed: ${error}`);
+    }
+
+    return detectedFeatures;
+  }
+
+  private getScriptExtension(language: string): string {
+    switch (language) {
+      case 'typescript': return '.ts';
+      case 'typescriptreact': return '.tsx';
+      case 'javascriptreact': return '.jsx';
+      default: return '.js';
+    }
+  }
+
+  private getScriptKind(language: string): ts.ScriptKind {
+    switch (language) {
+      case 'typescript': return ts.ScriptKind.TS;
+      case 'typescriptreact': return ts.ScriptKind.TSX;
+      case 'javascriptreact': return ts.ScriptKind.JSX;
+      default: return ts.ScriptKind.JS;
+    }
+  }
+
+  /**
+   * Resolves a match from one of the detection passes against the API data.
+   * `baseOffset` is where the analysed text starts within the document.
+   */
+  private toDetectedFeature(
+    document: vscode.TextDocument,
+    match: FeatureMatch,
+    detectionMethod: EnhancedDetectedFeature['detectionMethod'],
+    baseOffset = 0
+  ): EnhancedDetectedFeature | undefined {
+    let feature = this.apiClient.getFeature(match.featureId);
+    if (!feature) {
+      this.outputChannel?.appendLine(`      ❌ Feature "${match.featureId}" NOT in API`);
+      return undefined;
+    }
+
+    const subFeature = findSubFeature(feature, match.compatKeys);
+    if (subFeature) {
+      feature = withSubFeature(feature, subFeature);
+    }
+
+    const startPos = document.positionAt(baseOffset + match.start);
+    const endPos = document.positionAt(baseOffset + match.end);
+
+    return {
+      feature,
+      range: new vscode.Range(startPos, endPos),
+      severity: this.getSeverity(feature, document),
+      confidence: match.confidence,
+      context: this.getLineContext(document, startPos.line),
+      detectionMethod,
+      guard: match.guard,
+      subFeature
+    };
+  }
+
   private getNodeContext(node: ts.Node, sourceFile: ts.SourceFile): string {
     const start = Math.max(0, node.getStart() - 50);
     const end = Math.min(sourceFile.getFullText().length, node.getEnd() + 50);
@@ -190,14 +584,16 @@ export class EnhancedFeatureDetector {
 
   private async detectWithRegex(
     document: vscode.TextDocument,
-    patterns: PatternInfo[]
+    text: string,
+    language: string,
+    patterns: PatternInfo[],
+    baseOffset = 0
   ): Promise<EnhancedDetectedFeature[]> {
     const detectedFeatures: EnhancedDetectedFeature[] = [];
-    const text = document.getText();
 
     for (const patternInfo of patterns) {
       // Skip AST patterns if we already detected them
-      if (patternInfo.astPattern && this.isTypeScriptLike(document.languageId)) {
+      if (patternInfo.astPattern && this.isTypeScriptLike(language)) {
         this.outputChannel?.appendLine(`   ⏭️ Skipping ${patternInfo.featureId} (has AST, using AST instead)`);
         continue;
       }
@@ -221,27 +617,14 @@ export class EnhancedFeatureDetector {
 
         this.outputChannel?.appendLine(`      ✅ Feature FOUND in API: ${feature.name}`);
 
-        const startPos = document.positionAt(match.index);
-        const endPos = document.positionAt(match.index + match[0].length);
+        const startPos = document.positionAt(baseOffset + match.index);
+        const endPos = document.positionAt(baseOffset + match.index + match[0].length);
         const range = new vscode.Range(startPos, endPos);
         
-        let confidence = patternInfo.confidence;
-        
-        // Context validation for ambiguous patterns
-        if (patternInfo.contextRequired) {
-          const lineText = document.lineAt(startPos.line).text;
-          confidence = this.validateContext(match[0], lineText, patternInfo);
-          
-          this.outputChannel?.appendLine(`      🎯 Confidence check: ${confidence}`);
-          
-          if (confidence < 0.5) {
-            this.outputChannel?.appendLine(`      ⏭️ Skipped (confidence too low: ${confidence})`);
-            continue;
-          }
-        }
+        const confidence = patternInfo.confidence;
         
         const context = this.getLineContext(document, startPos.line);
-        const severity = this.getSeverity(feature);
+        const severity = this.getSeverity(feature, document);
         
         detectedFeatures.push({
           feature,
@@ -278,25 +661,6 @@ export class EnhancedFeatureDetector {
     }
   }
 
-  private validateContext(match: string, lineText: string, patternInfo: PatternInfo): number {
-    switch (patternInfo.featureId) {
-      case 'js-optional-chaining':
-        // Not a ternary operator
-        return lineText.includes('?.') && !lineText.match(/\?[^.]/g) ? 0.9 : 0.3;
-      
-      case 'js-private-fields':
-        // In class context
-        return /class\s+/.test(lineText) || lineText.trim().startsWith('#') ? 0.9 : 0.4;
-      
-      case 'js-top-level-await':
-        // Not inside a function
-        return !lineText.includes('async') && lineText.trim().startsWith('await') ? 0.8 : 0.3;
-        
-      default:
-        return patternInfo.confidence;
-    }
-  }
-
   private getLineContext(document: vscode.TextDocument, lineNumber: number): string {
     const startLine = Math.max(0, lineNumber - 2);
     const endLine = Math.min(document.lineCount - 1, lineNumber + 2);
@@ -308,25 +672,116 @@ export class EnhancedFeatureDetector {
     return context;
   }
 
-  private getSeverity(feature: WebFeature): vscode.DiagnosticSeverity {
-    const status = feature.baseline?.status;
-    
-    switch (status) {
-      case 'limited':
-        return vscode.DiagnosticSeverity.Warning;
-      case 'newly':
-        return vscode.DiagnosticSeverity.Information;
-      case 'widely':
-        return vscode.DiagnosticSeverity.Hint;
-      default:
-        return vscode.DiagnosticSeverity.Information;
+  // The baselineGuard.severity level of the feature's status; "off" is dropped later, in dropStatusesOff
+  private getSeverity(feature: WebFeature, document: vscode.TextDocument): vscode.DiagnosticSeverity {
+    const level = this.settings.get(document.uri).severity[feature.baseline?.status || 'unknown'];
+    return level === 'off' ? vscode.DiagnosticSeverity.Hint : STATUS_SEVERITIES[level];
+  }
+
+  private dropStatusesOff(features: EnhancedDetectedFeature[], severity: StatusSeverities): EnhancedDetectedFeature[] {
+    return features.filter(detected => severity[detected.feature.baseline?.status || 'unknown'] !== 'off');
+  }
+
+  private applyBrowserTargets(features: EnhancedDetectedFeature[], targets: BrowserTargets) {
+    for (const detected of features) {
+      const gaps = this.targetsService.findUnsupportedTargets(detected.feature, targets);
+      detected.unsupportedTargets = gaps;
+      // Only a warning when one of our own browsers lacks the feature
+      detected.severity = gaps.length > 0
+        ? vscode.DiagnosticSeverity.Warning
+        : vscode.DiagnosticSeverity.Hint;
+    }
+  }
+
+  private applyBaselinePolicy(features: EnhancedDetectedFeature[], policy: BaselinePolicy) {
+    for (const detected of features) {
+      const verdict = evaluatePolicy(detected.feature, policy);
+      detected.policyVerdict = verdict;
+      detected.severity = verdict.inPolicy
+        ? vscode.DiagnosticSeverity.Hint
+        : vscode.DiagnosticSeverity.Warning;
+    }
+  }
+
+  private applyGuards(features: EnhancedDetectedFeature[]) {
+    for (const detected of features) {
+      if (detected.guard) {
+        detected.severity = Math.max(detected.severity, vscode.DiagnosticSeverity.Information);
+      }
+    }
+  }
+
+  private applyPolyfills(features: EnhancedDetectedFeature[], coverage: PolyfillCoverage) {
+    for (const detected of features) {
+      const source = coverage.features.get(detected.feature.feature_id);
+      if (source) {
+        detected.polyfilled = source;
+        detected.severity = Math.max(detected.severity, vscode.DiagnosticSeverity.Information);
+      }
+    }
+  }
+
+  private applyTranspiled(features: EnhancedDetectedFeature[], mode: 'hint' | 'hide'): EnhancedDetectedFeature[] {
+    if (mode === 'hide') {
+      return features.filter(detected => !detected.transpiled);
+    }
+
+    for (const detected of features) {
+      if (detected.transpiled) {
+        detected.severity = vscode.DiagnosticSeverity.Hint;
+      }
+    }
+    return features;
+  }
+
+  private applyRules(features: EnhancedDetectedFeature[], rules: Map<string, RuleSetting>): EnhancedDetectedFeature[] {
+    const kept: EnhancedDetectedFeature[] = [];
+
+    for (const detected of features) {
+      const rule = rules.get(detected.feature.feature_id);
+      if (rule === 'off') {
+        continue;
+      }
+      if (rule && rule !== 'on') {
+        detected.severity = RULE_SEVERITIES[rule];
+      }
+      kept.push(detected);
     }
+
+    return kept;
+  }
+
+  private rankByImpact(features: EnhancedDetectedFeature[], audience: Audience | undefined) {
+    for (const detected of features) {
+      detected.impact = computeImpact(detected.feature, audience);
+      // Guarded, polyfilled and transpiled uses already work for everyone
+      if (detected.guard || detected.polyfilled || detected.transpiled) {
+        detected.impact.score = 0;
+      }
+    }
+
+    features.sort((a, b) =>
+      b.impact!.score - a.impact!.score ||
+      a.severity - b.severity ||
+      a.range.start.line - b.range.start.line ||
+      a.range.start.character - b.range.start.character
+    );
   }
 
-  private filterAndDeduplicateFeatures(features: EnhancedDetectedFeature[]): EnhancedDetectedFeature[] {
+  private filterAndDeduplicateFeatures(
+    features: EnhancedDetectedFeature[],
+    suppressions: Suppressions,
+    minimumConfidence: number,
+    showHints: boolean
+  ): EnhancedDetectedFeature[] {
     const seen = new Map<string, EnhancedDetectedFeature>();
     
     for (const feature of features) {
+      // baseline-guard-disable comments
+      if (suppressions.isSuppressed(feature.feature.feature_id, feature.range.start.line)) {
+        continue;
+      }
+
       const key = `${feature.feature.feature_id}-${feature.range.start.line}`;
       
       // Keep the higher confidence detection
@@ -335,13 +790,15 @@ export class EnhancedFeatureDetector {
       }
     }
     
-    // Filter out low confidence detections
-    const filtered = Array.from(seen.values()).filter(f => f.confidence >= 0.6);
+    // Filter out low confidence detections, and hints when they are switched off
+    const filtered = Array.from(seen.values()).filter(f =>
+      f.confidence >= minimumConfidence && (showHints || f.severity !== vscode.DiagnosticSeverity.Hint)
+    );
     
     // Log what was filtered out
     const removed = features.length - filtered.length;
     if (removed > 0) {
-      this.outputChannel?.appendLine(`🗑️ Filtered out ${removed} duplicates/low-confidence detections`);
+      this.outputChannel?.appendLine(`🗑️ Filtered out ${removed} duplicates/suppressed/low-confidence/hint detections`);
     }
     
     return filtered;
@@ -355,3 +812,14 @@ export class EnhancedFeatureDetector {
     this.cache.clear();
   }
 }
+
+/**
+ * The Baseline target policy in effect. For a document, a `baselineTarget`
+ * in its .baselineguard.json takes precedence over the setting of its
+ * workspace folder.
+ */
+export function getBaselinePolicy(document?: vscode.TextDocument): BaselinePolicy | undefined {
+  const fromConfig = document && WorkspaceConfigService.getInstance().getConfig(document)?.baselineTarget;
+  const target = fromConfig ?? SettingsService.getInstance().get(document?.uri).baselineTarget;
+  return parseBaselineTarget(target);
+}
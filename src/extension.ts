@@ -2,11 +2,22 @@
 import * as vscode from 'vscode';
 import { WebStatusApiClient } from './webStatusApi';
 import { CompatibilityDiagnosticProvider } from './diagnosticProvider';
-import { SUPPORTED_LANGUAGES } from './utils/constants';
+import { STATUS_ICONS, SUPPORTED_LANGUAGES } from './utils/constants';
 import { SecretStorageService } from './services/secretStorage';
 import { GeminiService } from './services/geminiService';
 import { CompatibilityCodeActionProvider } from './codeActionProvider';
 import { DashboardProvider } from './dashboardProvider';
+import { BrowserTargetsService } from './services/browserTargets';
+import { CONFIG_FILE_NAME, WorkspaceConfigService } from './services/workspaceConfig';
+import { TranspileTargetService } from './services/transpileTargets';
+import { PolyfillService } from './services/polyfills';
+import { RuntimeContextService } from './services/runtimeContext';
+import { SettingsService, affectsAnalysis } from './services/settings';
+import { getBaselinePolicy } from './enhancedFeatureDetector';
+import { renderChangeReport, summarizeChange } from './utils/featureChanges';
+import { renderTimeline } from './utils/featureTimeline';
+import { describeCaveat } from './utils/subFeatures';
+import { renderImpactReport } from './utils/impact';
 
 let outputChannel: vscode.OutputChannel;
 let apiClient: WebStatusApiClient;
@@ -14,6 +25,7 @@ let statusBarItem: vscode.StatusBarItem;
 let diagnosticProvider: CompatibilityDiagnosticProvider;
 let geminiService: GeminiService;
 let dashboardProvider: DashboardProvider;
+let lastChangeReport: string | undefined;
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('BaselineGuard: Extension is activating...');
@@ -51,16 +63,28 @@ export async function activate(context: vscode.ExtensionContext) {
         // Initialize API client
         apiClient = WebStatusApiClient.getInstance();
         apiClient.setOutputChannel(outputChannel);
+        apiClient.setStorageUri(context.globalStorageUri);
         outputChannel.appendLine('✅ API client initialized');
         
-        // Try to fetch initial data
-        statusBarItem.text = '$(loading~spin) BaselineGuard: Loading...';
-        const features = await apiClient.fetchFeatures();
-        statusBarItem.text = `$(shield) BaselineGuard (${features.length})`;
-        outputChannel.appendLine(`✅ Loaded ${features.length} web features`);
+        // Initialize browserslist targets
+        BrowserTargetsService.getInstance().setOutputChannel(outputChannel);
+        WorkspaceConfigService.getInstance().setOutputChannel(outputChannel);
+        TranspileTargetService.getInstance().setOutputChannel(outputChannel);
+        PolyfillService.getInstance().setOutputChannel(outputChannel);
+        RuntimeContextService.getInstance().setOutputChannel(outputChannel);
+
+        // Settings are read once and re-read when they change
+        SettingsService.getInstance().setOutputChannel(outputChannel);
+        context.subscriptions.push(SettingsService.getInstance().watch());
+        
+        // The bundled snapshot is usable right away; live data is layered on when it arrives
+        const cacheInfo = apiClient.getCacheInfo();
+        statusBarItem.text = `$(shield) BaselineGuard (${cacheInfo.size})`;
+        statusBarItem.tooltip = `BaselineGuard - ${cacheInfo.size} features loaded\nData: ${cacheInfo.dataset}`;
+        outputChannel.appendLine(`✅ Loaded ${cacheInfo.size} web features from the ${cacheInfo.dataset}`);
         
         // Register Dashboard Provider
-        dashboardProvider = new DashboardProvider(context.extensionUri, apiClient);
+        dashboardProvider = new DashboardProvider(context.extensionUri, apiClient, diagnosticProvider);
         context.subscriptions.push(
             vscode.window.registerWebviewViewProvider(
                 DashboardProvider.viewType,
@@ -87,6 +111,9 @@ export async function activate(context: vscode.ExtensionContext) {
         
         // Set up file analysis
         await setupFileAnalysis(context);
+
+        // Fetch live data without holding up activation
+        void loadLiveData();
         
         // Show activation message with AI status
         const aiStatus = geminiService.isAvailable() ? '🤖 AI Ready' : '⚠️ Setup AI Key';
@@ -120,7 +147,7 @@ async function setupFileAnalysis(context: vscode.ExtensionContext) {
                 // Reset status bar for unsupported files
                 const cacheInfo = apiClient.getCacheInfo();
                 statusBarItem.text = `$(shield) BaselineGuard (${cacheInfo.size})`;
-                statusBarItem.tooltip = `BaselineGuard - ${cacheInfo.size} features loaded`;
+                statusBarItem.tooltip = `BaselineGuard - ${cacheInfo.size} features loaded\nData: ${cacheInfo.dataset}`;
             }
         });
 
@@ -144,10 +171,72 @@ async function setupFileAnalysis(context: vscode.ExtensionContext) {
             diagnosticProvider.clearDiagnostics(document);
         });
 
+        // Re-analyze when the browserslist config, a .baselineguard.json or a compiler config changes
+        const browserslistWatcher = vscode.workspace.createFileSystemWatcher('**/{.browserslistrc,browserslist,package.json}');
+        const workspaceConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/${CONFIG_FILE_NAME}`);
+        const transpileConfigWatcher = vscode.workspace.createFileSystemWatcher(
+            '**/{tsconfig.json,jsconfig.json,babel.config.json,.babelrc,.babelrc.json,vite.config.*,esbuild.config.*,esbuild.js,esbuild.mjs}'
+        );
+        const clearProjectCaches = () => {
+            BrowserTargetsService.getInstance().clearCache();
+            WorkspaceConfigService.getInstance().clearCache();
+            TranspileTargetService.getInstance().clearCache();
+            PolyfillService.getInstance().clearCache();
+            RuntimeContextService.getInstance().clearCache();
+        };
+        const onProjectConfigChange = async (uri: vscode.Uri) => {
+            // Installs rewrite the manifests and configs of every dependency
+            if (uri.path.split('/').includes('node_modules')) {
+                return;
+            }
+            clearProjectCaches();
+            diagnosticProvider.clearCache();
+            const editor = vscode.window.activeTextEditor;
+            if (editor && SUPPORTED_LANGUAGES.includes(editor.document.languageId as any)) {
+                await analyzeDocument(editor.document);
+                await updateStatusBarForDocument(editor.document);
+            }
+        };
+        for (const watcher of [browserslistWatcher, workspaceConfigWatcher, transpileConfigWatcher]) {
+            watcher.onDidChange(onProjectConfigChange);
+            watcher.onDidCreate(onProjectConfigChange);
+            watcher.onDidDelete(onProjectConfigChange);
+        }
+
+        // Polyfill imports live in entry files, which are ordinary source files
+        const onDidSaveTextDocument = vscode.workspace.onDidSaveTextDocument(async document => {
+            if (PolyfillService.getInstance().invalidate(document.uri.fsPath)) {
+                await onProjectConfigChange(document.uri);
+                await dashboardProvider?.refresh();
+            }
+        });
+
+        // Re-analyze every open document when settings that affect findings change
+        const onDidChangeSettings = SettingsService.getInstance().onDidChange(async event => {
+            if (affectsAnalysis(event)) {
+                clearProjectCaches();
+                await reanalyzeOpenDocuments();
+                await dashboardProvider?.refresh();
+            }
+
+            // Reload live data from the newly configured sources
+            if (event.affectsConfiguration('baselineGuard.dataSources') ||
+                event.affectsConfiguration('baselineGuard.mirrorUrl') ||
+                event.affectsConfiguration('baselineGuard.featureDataFile')) {
+                apiClient.forceRefresh();
+                await loadLiveData();
+            }
+        });
+
         context.subscriptions.push(
             onDidChangeActiveTextEditor,
             onDidChangeTextDocument,
-            onDidCloseTextDocument
+            onDidCloseTextDocument,
+            onDidSaveTextDocument,
+            browserslistWatcher,
+            workspaceConfigWatcher,
+            transpileConfigWatcher,
+            onDidChangeSettings
         );
 
         outputChannel.appendLine('✅ File analysis setup complete');
@@ -157,9 +246,89 @@ async function setupFileAnalysis(context: vscode.ExtensionContext) {
     }
 }
 
+async function loadLiveData() {
+    const before = apiClient.getDatasetInfo();
+    await apiClient.fetchFeatures(showFetchProgress);
+
+    // Replaces the fetch progress; an open file's findings update it below
+    const cacheInfo = apiClient.getCacheInfo();
+    statusBarItem.text = `$(shield) BaselineGuard (${cacheInfo.size})`;
+    statusBarItem.tooltip = `BaselineGuard - ${cacheInfo.size} features loaded\nData: ${cacheInfo.dataset}`;
+    if (apiClient.getDatasetInfo() === before) {
+        return;
+    }
+
+    // Re-resolve the open files' findings against the live data
+    outputChannel.appendLine(`📡 Now using ${apiClient.describeDataset()}`);
+    await reanalyzeOpenDocuments();
+    await dashboardProvider?.refresh();
+    await reportStatusChanges();
+}
+
+// Re-runs every open document's diagnostics, so severities follow new feature data
+async function reanalyzeOpenDocuments() {
+    diagnosticProvider.clearCache();
+    for (const document of vscode.workspace.textDocuments) {
+        if (SUPPORTED_LANGUAGES.includes(document.languageId as any)) {
+            await analyzeDocument(document);
+        }
+    }
+    const editor = vscode.window.activeTextEditor;
+    if (editor && SUPPORTED_LANGUAGES.includes(editor.document.languageId as any)) {
+        await updateStatusBarForDocument(editor.document);
+    }
+}
+
+// Tells the user when features used in the workspace changed status in the newly loaded data
+async function reportStatusChanges() {
+    const changes = apiClient.takeStatusChanges();
+    if (changes.length === 0) {
+        return;
+    }
+
+    const usedIds = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'BaselineGuard: scanning the workspace for changed features', cancellable: false },
+        () => diagnosticProvider.scanWorkspaceFeatureIds()
+    );
+
+    // Changes to the features with the most impactful findings in open files come first
+    const findings = diagnosticProvider.getFindings();
+    const rank = (featureId: string) => {
+        const index = findings.findIndex(({ detected }) => detected.feature.feature_id === featureId);
+        return index === -1 ? findings.length : index;
+    };
+    const used = changes.filter(change => usedIds.has(change.featureId))
+        .sort((a, b) => rank(a.featureId) - rank(b.featureId));
+    outputChannel.appendLine(`📰 ${changes.length} features changed status, ${used.length} of them used in the workspace`);
+    if (used.length === 0) {
+        return;
+    }
+
+    lastChangeReport = renderChangeReport(used, changes.length - used.length, apiClient.describeDataset());
+    const summary = used.slice(0, 3).map(summarizeChange).join(', ') + (used.length > 3 ? ` and ${used.length - 3} more` : '');
+    void vscode.window.showInformationMessage(`Baseline status changed for features you use: ${summary}`, 'What Changed')
+        .then(choice => {
+            if (choice === 'What Changed') {
+                void vscode.commands.executeCommand('baselineGuard.showStatusChanges');
+            }
+        });
+}
+
+// Status bar progress while the WebStatus API pages come in
+function showFetchProgress(fetched: number, total?: number) {
+    statusBarItem.text = `$(sync~spin) BaselineGuard: fetching ${fetched}${total ? `/${total}` : ''} features`;
+}
+
 async function analyzeDocument(document: vscode.TextDocument) {
     try {
+        // Turned off by the toggle command or in the document's folder settings
+        if (!SettingsService.getInstance().get(document.uri).enabled) {
+            diagnosticProvider.clearDiagnostics(document);
+            dashboardProvider?.updateFindings();
+            return;
+        }
         await diagnosticProvider.provideDiagnostics(document);
+        dashboardProvider?.updateFindings();
     } catch (error) {
         outputChannel.appendLine(`❌ Document analysis failed: ${error}`);
     }
@@ -167,19 +336,38 @@ async function analyzeDocument(document: vscode.TextDocument) {
 
 async function updateStatusBarForDocument(document: vscode.TextDocument) {
     try {
+        if (!SettingsService.getInstance().get(document.uri).enabled) {
+            statusBarItem.text = '$(shield) BaselineGuard: Disabled';
+            statusBarItem.tooltip = 'BaselineGuard - Analysis is turned off (baselineGuard.enabled)';
+            return;
+        }
+
         const diagnostics = vscode.languages.getDiagnostics(document.uri);
         const issues = diagnostics.filter(d => d.source === 'BaselineGuard');
         
-        if (issues.length > 0) {
+        const policy = getBaselinePolicy(document);
+        const dataset = `\nData: ${apiClient.describeDataset()}`;
+        
+        if (issues.length > 0 && policy) {
+            // Count by policy verdict instead of the fixed Baseline buckets
+            const detected = diagnosticProvider.getDetectedFeatures(document.uri);
+            const outOfPolicy = detected.filter(d => d.policyVerdict && !d.policyVerdict.inPolicy).length;
+            const inPolicy = detected.length - outOfPolicy;
+            
+            statusBarItem.text = `$(shield) BaselineGuard: ${outOfPolicy}⛔ ${inPolicy}✅`;
+            statusBarItem.tooltip = `BaselineGuard - ${policy.label}\n${outOfPolicy} out of policy, ${inPolicy} in policy${dataset}`;
+        } else if (issues.length > 0) {
+            // Counted by severity: baselineGuard.severity maps each Baseline status to any of them
+            const errors = issues.filter(d => d.severity === vscode.DiagnosticSeverity.Error).length;
             const warnings = issues.filter(d => d.severity === vscode.DiagnosticSeverity.Warning).length;
             const infos = issues.filter(d => d.severity === vscode.DiagnosticSeverity.Information).length;
             const hints = issues.filter(d => d.severity === vscode.DiagnosticSeverity.Hint).length;
             
-            statusBarItem.text = `$(shield) BaselineGuard: ${warnings}⚠️ ${infos}🟡 ${hints}✅`;
-            statusBarItem.tooltip = `BaselineGuard - ${issues.length} compatibility findings\n${warnings} limited, ${infos} newly available, ${hints} widely available`;
+            statusBarItem.text = `$(shield) BaselineGuard: ${errors}❌ ${warnings}⚠️ ${infos}🟡 ${hints}✅`;
+            statusBarItem.tooltip = `BaselineGuard - ${issues.length} compatibility findings\n${errors} errors, ${warnings} warnings, ${infos} information, ${hints} hints${dataset}`;
         } else {
             statusBarItem.text = `$(shield) BaselineGuard: Clean ✅`;
-            statusBarItem.tooltip = `BaselineGuard - No compatibility issues found`;
+            statusBarItem.tooltip = `BaselineGuard - No compatibility issues found${dataset}`;
         }
         
     } catch (error) {
@@ -202,7 +390,7 @@ function registerCommands(context: vscode.ExtensionContext) {
             }
             
             const aiStatus = geminiService.isAvailable() ? '✅ AI Ready' : '⚠️ Setup Required';
-            const message = `Hello from BaselineGuard! 🛡️\n\nFeatures cached: ${cacheInfo.size}\nLast updated: ${new Date(cacheInfo.lastFetch).toLocaleString()}\nAI Status: ${aiStatus}${analysisInfo}`;
+            const message = `Hello from BaselineGuard! 🛡️\n\nFeatures cached: ${cacheInfo.size}\nData: ${cacheInfo.dataset}\nAI Status: ${aiStatus}${analysisInfo}`;
             vscode.window.showInformationMessage(message);
             outputChannel.appendLine('✅ Hello command executed');
         } catch (error) {
@@ -283,22 +471,18 @@ function registerCommands(context: vscode.ExtensionContext) {
             outputChannel.appendLine('🔄 Refreshing data...');
             
             apiClient.forceRefresh();
-            const features = await apiClient.fetchFeatures();
+            const features = await apiClient.fetchFeatures(showFetchProgress);
             
             if (dashboardProvider) {
                 await dashboardProvider.refresh();
             }
             
-            const activeEditor = vscode.window.activeTextEditor;
-            if (activeEditor && SUPPORTED_LANGUAGES.includes(activeEditor.document.languageId as any)) {
-                await analyzeDocument(activeEditor.document);
-                await updateStatusBarForDocument(activeEditor.document);
-            } else {
-                statusBarItem.text = `$(shield) BaselineGuard (${features.length})`;
-            }
+            statusBarItem.text = `$(shield) BaselineGuard (${features.length})`;
+            await reanalyzeOpenDocuments();
             
             vscode.window.showInformationMessage(`Refreshed! ${features.length} features loaded.`);
             outputChannel.appendLine(`✅ Data refreshed: ${features.length} features`);
+            await reportStatusChanges();
             
         } catch (error) {
             statusBarItem.text = '$(shield) BaselineGuard: Error';
@@ -307,6 +491,63 @@ function registerCommands(context: vscode.ExtensionContext) {
         }
     });
     
+    // Persisted feature cache
+    const showCacheCommand = vscode.commands.registerCommand('baselineGuard.showCache', async () => {
+        const info = apiClient.getPersistedCacheInfo();
+        if (!info) {
+            vscode.window.showInformationMessage(`No feature data cached on disk yet. Using the ${apiClient.describeDataset()}.`);
+            return;
+        }
+
+        const validators = [info.etag && `ETag ${info.etag}`, info.lastModified && `Last-Modified ${info.lastModified}`]
+            .filter(Boolean).join(', ') || 'none';
+        const choice = await vscode.window.showInformationMessage(
+            `Feature cache: ${info.size} features fetched ${new Date(info.fetchedAt).toLocaleString()} (validators: ${validators})`,
+            'Open Cache File',
+            'Clear Cache'
+        );
+        if (choice === 'Open Cache File') {
+            await vscode.window.showTextDocument(vscode.Uri.file(info.file));
+        } else if (choice === 'Clear Cache') {
+            await vscode.commands.executeCommand('baselineGuard.clearCache');
+        }
+    });
+
+    const clearCacheCommand = vscode.commands.registerCommand('baselineGuard.clearCache', async () => {
+        apiClient.clearPersistedCache();
+        diagnosticProvider.clearCache();
+        await dashboardProvider?.refresh();
+        vscode.window.showInformationMessage(`Feature cache cleared. Using the ${apiClient.describeDataset()} until the next refresh.`);
+        outputChannel.appendLine('✅ Feature cache cleared');
+    });
+    
+    // Status changes found by the last data load
+    const showStatusChangesCommand = vscode.commands.registerCommand('baselineGuard.showStatusChanges', async () => {
+        if (!lastChangeReport) {
+            vscode.window.showInformationMessage('No Baseline status changes for features used in the workspace since BaselineGuard started.');
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: lastChangeReport });
+        await vscode.window.showTextDocument(document);
+    });
+    
+    // Findings in open files, most impactful first
+    const showImpactReportCommand = vscode.commands.registerCommand('baselineGuard.showImpactReport', async () => {
+        const entries = diagnosticProvider.getFindings()
+            .filter(({ detected }) => detected.impact)
+            .map(({ uri, detected }) => ({
+                featureId: detected.feature.feature_id,
+                name: detected.feature.name,
+                location: `${vscode.workspace.asRelativePath(uri)}:${detected.range.start.line + 1}`,
+                impact: detected.impact!
+            }));
+        const document = await vscode.workspace.openTextDocument({
+            language: 'markdown',
+            content: renderImpactReport(entries, apiClient.describeDataset())
+        });
+        await vscode.window.showTextDocument(document);
+    });
+    
     // Analyze file command
     const analyzeFileCommand = vscode.commands.registerCommand('baselineGuard.analyzeFile', async () => {
         const activeEditor = vscode.window.activeTextEditor;
@@ -528,25 +769,67 @@ ${suggestion}
         }
     );
 
+    // Show Feature Timeline, for a feature ID from a code action or the dashboard, or one picked by name
+    const showTimelineCommand = vscode.commands.registerCommand('baselineGuard.showTimeline', async (featureId?: string) => {
+        if (!featureId) {
+            const picked = await vscode.window.showQuickPick(
+                apiClient.searchFeaturesByName('').map(feature => ({ label: feature.name, description: feature.feature_id })),
+                { placeHolder: 'Select a feature to show its Baseline timeline', matchOnDescription: true }
+            );
+            featureId = picked?.description;
+        }
+        const timeline = featureId ? apiClient.getTimeline(featureId) : undefined;
+        if (!timeline) {
+            if (featureId) {
+                vscode.window.showErrorMessage('Feature information not found');
+            }
+            return;
+        }
+
+        const doc = await vscode.workspace.openTextDocument({
+            content: renderTimeline(timeline),
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
+    });
+
     // Show Browser Support
     const showBrowserSupportCommand = vscode.commands.registerCommand(
         'baselineGuard.showBrowserSupport',
         async (document: vscode.TextDocument, diagnostic: vscode.Diagnostic) => {
             const featureId = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
-            const feature = apiClient.getFeature(featureId as string);
+            // The finding carries a sub-feature's own support when one was used
+            const detected = diagnosticProvider.getDetectedFeatures(document.uri)
+                .find(d => d.feature.feature_id === featureId && d.range.isEqual(diagnostic.range));
+            const feature = detected?.feature || apiClient.getFeature(featureId as string);
 
             if (!feature) {
                 vscode.window.showErrorMessage('Feature information not found');
                 return;
             }
 
-            let message = `Browser Support: ${feature.name}\n\n`;
+            let message = `Browser Support: ${feature.name}${detected?.subFeature ? ` (${detected.subFeature})` : ''}\n\n`;
             
             Object.entries(feature.browser_implementations).forEach(([browser, impl]) => {
                 const icon = impl.status === 'available' ? '✅' : '❌';
                 message += `${icon} ${browser}: ${impl.status} (v${impl.version})\n`;
+                for (const caveat of impl.caveats || []) {
+                    message += `   🔤 ${describeCaveat(caveat)}\n`;
+                }
             });
 
+            // Sub-features whose support differs from the feature's
+            const subFeatures = Object.entries(feature.sub_features || {});
+            if (subFeatures.length > 0) {
+                message += `\nSub-features with their own support:\n`;
+                for (const [compatKey, subFeature] of subFeatures.slice(0, 15)) {
+                    message += `${STATUS_ICONS[subFeature.baseline?.status || 'unknown']} ${compatKey}\n`;
+                }
+                if (subFeatures.length > 15) {
+                    message += `… and ${subFeatures.length - 15} more\n`;
+                }
+            }
+
             vscode.window.showInformationMessage(message, { modal: true });
         }
     );
@@ -558,6 +841,11 @@ ${suggestion}
         showWebviewCommand,
         debugApiCommand,  // NEW DEBUG COMMAND
         refreshCommand, 
+        showCacheCommand,
+        clearCacheCommand,
+        showStatusChangesCommand,
+        showTimelineCommand,
+        showImpactReportCommand,
         analyzeFileCommand,
         toggleCommand,
         setupKeyCommand,
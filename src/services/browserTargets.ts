@@ -0,0 +1,166 @@
+// src/services/browserTargets.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import browserslist from 'browserslist';
+import { WebFeature } from '../webStatusApi';
+import { BROWSERS } from '../utils/constants';
+
+// Browserslist (Can I Use) names -> WebStatus browser keys
+export const BROWSERSLIST_TO_WEBSTATUS: { [name: string]: keyof typeof BROWSERS } = {
+  chrome: 'chrome',
+  edge: 'edge',
+  firefox: 'firefox',
+  safari: 'safari',
+  and_chr: 'chrome_android',
+  and_ff: 'firefox_android',
+  ios_saf: 'safari_ios'
+};
+
+export interface BrowserTargets {
+  // Lowest targeted version per WebStatus browser key
+  minimumVersions: Map<string, string>;
+  // Browsers in the query result that WebStatus has no data for
+  untracked: string[];
+  queries: string[];
+}
+
+export interface TargetGap {
+  browser: string;
+  browserName: string;
+  targetVersion: string;
+  supportedSince?: string;
+}
+
+export class BrowserTargetsService {
+  private static instance: BrowserTargetsService;
+  private cache = new Map<string, BrowserTargets | null>();
+  private outputChannel: vscode.OutputChannel | undefined;
+
+  static getInstance(): BrowserTargetsService {
+    if (!BrowserTargetsService.instance) {
+      BrowserTargetsService.instance = new BrowserTargetsService();
+    }
+    return BrowserTargetsService.instance;
+  }
+
+  setOutputChannel(channel: vscode.OutputChannel) {
+    this.outputChannel = channel;
+  }
+
+  /**
+   * Resolves the browserslist targets that apply to a document, from
+   * `queries` when given (the `targets` of .baselineguard.json) or else the
+   * project's browserslist config. Returns undefined when there are none.
+   */
+  getTargets(document: vscode.TextDocument, queries?: string[]): BrowserTargets | undefined {
+    if (document.uri.scheme !== 'file') {
+      return undefined;
+    }
+
+    const env = this.getEnvironment();
+    const directory = path.dirname(document.uri.fsPath);
+    const cacheKey = `${directory}|${env || ''}|${queries ? queries.join(',') : ''}`;
+
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey) || undefined;
+    }
+
+    const targets = this.resolveTargets(directory, env, queries);
+    this.cache.set(cacheKey, targets || null);
+    return targets;
+  }
+
+  /**
+   * Lists the targeted browsers that cannot use the feature at their lowest
+   * targeted version.
+   */
+  findUnsupportedTargets(feature: WebFeature, targets: BrowserTargets): TargetGap[] {
+    const gaps: TargetGap[] = [];
+
+    targets.minimumVersions.forEach((targetVersion, browser) => {
+      const impl = feature.browser_implementations[browser];
+      const browserName = BROWSERS[browser as keyof typeof BROWSERS] || browser;
+
+      if (!impl || impl.status !== 'available') {
+        gaps.push({ browser, browserName, targetVersion });
+      } else if (compareVersions(impl.version, targetVersion) > 0) {
+        gaps.push({ browser, browserName, targetVersion, supportedSince: impl.version });
+      }
+    });
+
+    return gaps;
+  }
+
+  clearCache() {
+    this.cache.clear();
+    browserslist.clearCaches();
+  }
+
+  private getEnvironment(): string | undefined {
+    const env = vscode.workspace.getConfiguration('baselineGuard').get<string>('browserslistEnv', '');
+    return env || undefined;
+  }
+
+  private resolveTargets(directory: string, env: string | undefined, configured?: string[]): BrowserTargets | undefined {
+    try {
+      const queries = configured || browserslist.loadConfig({ path: directory, env });
+      if (!queries || queries.length === 0) {
+        return undefined;
+      }
+
+      const minimumVersions = new Map<string, string>();
+      const untracked = new Set<string>();
+
+      for (const entry of browserslist(queries, { path: directory, env })) {
+        const [name, version] = entry.split(' ');
+        const browser = BROWSERSLIST_TO_WEBSTATUS[name];
+        if (!browser) {
+          untracked.add(name);
+          continue;
+        }
+
+        // Ranges such as "15.6-15.8" start at their first version
+        const lowest = version.split('-')[0];
+        const current = minimumVersions.get(browser);
+        if (!current || compareVersions(lowest, current) < 0) {
+          minimumVersions.set(browser, lowest);
+        }
+      }
+
+      this.outputChannel?.appendLine(
+        `🎯 Browser targets for ${directory}: ${queries.join(', ')} → ` +
+        Array.from(minimumVersions.entries()).map(([b, v]) => `${b} ${v}`).join(', ')
+      );
+
+      return { minimumVersions, untracked: Array.from(untracked), queries };
+
+    } catch (error) {
+      this.outputChannel?.appendLine(`⚠️ Failed to resolve browserslist targets: ${error}`);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Orders browser versions as browserslist and WebStatus write them. Ranges
+ * such as "15.2-15.3" count as their first version, Safari Technology
+ * Preview ("TP") as newer than any release and "all" (every version, as in
+ * `op_mini all`) as older than any.
+ */
+export function compareVersions(a: string, b: string): number {
+  const [first, second] = [a, b].map(version => version.split('-')[0]);
+  if (first === second) { return 0; }
+  if (first === 'TP' || second === 'all') { return 1; }
+  if (second === 'TP' || first === 'all') { return -1; }
+
+  const left = first.split('.').map(part => parseInt(part, 10) || 0);
+  const right = second.split('.').map(part => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,239 @@
+// src/services/featureSources.ts
+import axios from 'axios';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WebFeature } from '../webStatusApi';
+import { WEBSTATUS_API_URL } from '../utils/constants';
+import { CompatData, WebFeaturesDataset, fromWebFeaturesData, normalizeFeatureData } from '../utils/webFeaturesData';
+
+/**
+ * Where feature data can come from, in the order `baselineGuard.dataSources`
+ * lists them: the public WebStatus API, a mirror of it, a JSON file in the
+ * workspace, or the `web-features` package in the project's node_modules.
+ */
+export type FeatureSourceKind = 'api' | 'mirror' | 'file' | 'npm';
+
+interface WebStatusResponse {
+  data: WebFeature[];
+  metadata?: {
+    next_page_token?: string;
+    total?: number;
+  };
+}
+
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * The result of walking every page of the features endpoint.
+ */
+export interface FeaturePages {
+  features: WebFeature[];
+  // False when a later page failed; `features` then holds the pages fetched before it
+  complete: boolean;
+  // The first page answered 304 to the validators that were sent
+  notModified: boolean;
+  // Validators of the first page, for the next conditional request
+  validators: CacheValidators;
+  error?: unknown;
+}
+
+// Stops a server that keeps handing out tokens from looping forever
+const MAX_PAGES = 1000;
+
+export interface FeatureSourceOptions {
+  pageSize: number;
+  validators?: CacheValidators;
+  onPage?: (fetched: number, total?: number) => void;
+}
+
+/**
+ * Features loaded from one source, with a label for the output channel and
+ * the dashboard, e.g. `web-features 3.41.0 (node_modules)`.
+ */
+export interface LoadedFeatures extends FeaturePages {
+  source: FeatureSourceKind;
+  label: string;
+}
+
+export interface FeatureSource {
+  kind: FeatureSourceKind;
+  // Throws when the source is not configured or cannot be read at all
+  load(options: FeatureSourceOptions): Promise<LoadedFeatures>;
+}
+
+/**
+ * The WebStatus API or a mirror serving the same paged responses.
+ */
+export class HttpFeatureSource implements FeatureSource {
+  constructor(readonly kind: 'api' | 'mirror', private url: string | undefined) {}
+
+  async load(options: FeatureSourceOptions): Promise<LoadedFeatures> {
+    if (!this.url) {
+      throw new Error('`baselineGuard.mirrorUrl` is not set');
+    }
+    const pages = await fetchFeaturePages(this.url, options);
+    const label = this.kind === 'api' ? 'WebStatus API' : `mirror ${new URL(this.url).host}`;
+    return { ...pages, source: this.kind, label };
+  }
+}
+
+/**
+ * A JSON file of features, relative to a workspace folder or absolute.
+ */
+export class FileFeatureSource implements FeatureSource {
+  readonly kind = 'file';
+
+  constructor(private file: string | undefined, private folders: string[]) {}
+
+  async load(options: FeatureSourceOptions): Promise<LoadedFeatures> {
+    if (!this.file) {
+      throw new Error('`baselineGuard.featureDataFile` is not set');
+    }
+    const candidates = path.isAbsolute(this.file) ? [this.file] : this.folders.map(folder => path.join(folder, this.file!));
+    const file = candidates.find(candidate => fs.existsSync(candidate));
+    if (!file) {
+      throw new Error(`${this.file} not found`);
+    }
+
+    const features = normalizeFeatureData(JSON.parse(await fs.promises.readFile(file, 'utf8')));
+    options.onPage?.(features.length, features.length);
+    return { features, complete: true, notModified: false, validators: {}, source: this.kind, label: path.basename(file) };
+  }
+}
+
+/**
+ * The `web-features` package installed in a workspace folder.
+ */
+export class NpmFeatureSource implements FeatureSource {
+  readonly kind = 'npm';
+
+  constructor(private folders: string[]) {}
+
+  async load(options: FeatureSourceOptions): Promise<LoadedFeatures> {
+    const directory = this.folders
+      .map(folder => path.join(folder, 'node_modules', 'web-features'))
+      .find(candidate => fs.existsSync(path.join(candidate, 'data.json')));
+    if (!directory) {
+      throw new Error('web-features is not installed in node_modules');
+    }
+
+    const data: WebFeaturesDataset = JSON.parse(await fs.promises.readFile(path.join(directory, 'data.json'), 'utf8'));
+    const features = fromWebFeaturesData(data, await this.readCompatData(path.dirname(directory)));
+    options.onPage?.(features.length, features.length);
+
+    let version = 'unknown';
+    try {
+      version = JSON.parse(fs.readFileSync(path.join(directory, 'package.json'), 'utf8')).version;
+    } catch {
+      // The data is usable without knowing its version
+    }
+    return { features, complete: true, notModified: false, validators: {}, source: this.kind, label: `web-features ${version} (node_modules)` };
+  }
+
+  // Support caveats come from browser-compat-data, when the project has it installed too
+  private async readCompatData(nodeModules: string): Promise<CompatData | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(path.join(nodeModules, '@mdn', 'browser-compat-data', 'data.json'), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * The configured sources in priority order. The client uses the first one
+ * that loads and falls through to the next when one fails.
+ */
+export function createFeatureSources(): FeatureSource[] {
+  const config = vscode.workspace.getConfiguration('baselineGuard');
+  const folders = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+
+  const sources: FeatureSource[] = [];
+  for (const kind of new Set(config.get<FeatureSourceKind[]>('dataSources', ['api']))) {
+    switch (kind) {
+      case 'api':
+        sources.push(new HttpFeatureSource('api', WEBSTATUS_API_URL));
+        break;
+      case 'mirror':
+        sources.push(new HttpFeatureSource('mirror', config.get<string>('mirrorUrl', '') || undefined));
+        break;
+      case 'file':
+        sources.push(new FileFeatureSource(config.get<string>('featureDataFile', '') || undefined, folders));
+        break;
+      case 'npm':
+        sources.push(new NpmFeatureSource(folders));
+        break;
+    }
+  }
+  return sources;
+}
+
+export function getApiPageSize(): number {
+  return vscode.workspace.getConfiguration('baselineGuard').get<number>('apiPageSize', 100);
+}
+
+/**
+ * Follows `metadata.next_page_token` through every page of the features
+ * endpoint at `url`. Validators go with the first request only; a 304 there
+ * ends the walk. A failing first page throws, a failing later page returns
+ * the pages fetched so far with `complete: false`, and so does a walk cut
+ * short by a repeated token or by MAX_PAGES.
+ */
+export async function fetchFeaturePages(
+  url: string,
+  options: FeatureSourceOptions
+): Promise<FeaturePages> {
+  const features: WebFeature[] = [];
+  const validators = options.validators || {};
+  const seenTokens = new Set<string>();
+  let pageToken: string | undefined;
+  let firstPageValidators: CacheValidators = {};
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    try {
+      const response = await axios.get<WebStatusResponse>(url, {
+        timeout: 10000,
+        params: { page_size: options.pageSize, ...(pageToken ? { page_token: pageToken } : {}) },
+        headers: {
+          'User-Agent': 'BaselineGuard-VSCode-Extension/1.0.0',
+          ...(page === 0 && validators.etag ? { 'If-None-Match': validators.etag } : {}),
+          ...(page === 0 && validators.lastModified ? { 'If-Modified-Since': validators.lastModified } : {})
+        },
+        validateStatus: status => status === 200 || (page === 0 && status === 304)
+      });
+
+      if (response.status === 304) {
+        return { features, complete: true, notModified: true, validators };
+      }
+      if (page === 0) {
+        firstPageValidators = {
+          etag: response.headers['etag'] || undefined,
+          lastModified: response.headers['last-modified'] || undefined
+        };
+      }
+
+      features.push(...response.data.data);
+      options.onPage?.(features.length, response.data.metadata?.total);
+
+      pageToken = response.data.metadata?.next_page_token;
+      if (!pageToken) {
+        return { features, complete: true, notModified: false, validators: firstPageValidators };
+      }
+      if (seenTokens.has(pageToken)) {
+        return { features, complete: false, notModified: false, validators: {}, error: new Error(`page token ${pageToken} repeated`) };
+      }
+      seenTokens.add(pageToken);
+    } catch (error) {
+      if (page === 0) {
+        throw error;
+      }
+      return { features, complete: false, notModified: false, validators: {}, error };
+    }
+  }
+
+  return { features, complete: false, notModified: false, validators: {}, error: new Error(`stopped after ${MAX_PAGES} pages`) };
+}
@@ -0,0 +1,162 @@
+// src/services/polyfills.ts
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { POLYFILL_PACKAGES, featuresForModule, featuresForPolyfillUrl, findPolyfillReferences } from '../utils/polyfills';
+import { PackageManifest, readPackageManifest } from '../utils/packageManifest';
+
+// Where projects conventionally load their polyfills, besides package.json entry fields
+const ENTRY_FILES = [
+  'index.html', 'public/index.html', 'src/index.html',
+  'src/polyfills.ts', 'src/polyfills.js',
+  'src/main.ts', 'src/main.js', 'src/main.tsx', 'src/main.jsx',
+  'src/index.ts', 'src/index.js', 'src/index.tsx', 'src/index.jsx'
+];
+
+// Entry files are read in full, so skip bundles and other generated output
+const MAX_ENTRY_SIZE = 512 * 1024;
+
+/**
+ * The features a project polyfills: feature ID → what provides it,
+ * e.g. `core-js/actual/array/at (src/main.ts)`.
+ */
+export interface PolyfillCoverage {
+  features: Map<string, string>;
+  // Files whose imports were read, so edits to them can refresh the coverage
+  entryFiles: string[];
+}
+
+export class PolyfillService {
+  private static instance: PolyfillService;
+  private cache = new Map<string, PolyfillCoverage>();
+  private outputChannel: vscode.OutputChannel | undefined;
+
+  static getInstance(): PolyfillService {
+    if (!PolyfillService.instance) {
+      PolyfillService.instance = new PolyfillService();
+    }
+    return PolyfillService.instance;
+  }
+
+  setOutputChannel(channel: vscode.OutputChannel) {
+    this.outputChannel = channel;
+  }
+
+  /**
+   * Reads the polyfills of the project a document belongs to: targeted
+   * polyfill packages in package.json `dependencies`, and polyfill imports or
+   * polyfill-service `<script>` tags in the project's entry files.
+   */
+  getCoverage(document: vscode.TextDocument): PolyfillCoverage | undefined {
+    if (document.uri.scheme !== 'file') {
+      return undefined;
+    }
+
+    const root = this.findProjectRoot(document);
+    if (!root) {
+      return undefined;
+    }
+    if (this.cache.has(root)) {
+      return this.cache.get(root);
+    }
+
+    const coverage = this.loadCoverage(root);
+    if (coverage.features.size > 0) {
+      this.outputChannel?.appendLine(`🩹 Polyfills in ${root}: ${[...coverage.features.keys()].join(', ')}`);
+    }
+
+    this.cache.set(root, coverage);
+    return coverage;
+  }
+
+  /**
+   * Drops cached coverage that was read from `fsPath`. Returns true when
+   * the file was one of the entry files.
+   */
+  invalidate(fsPath: string): boolean {
+    let changed = false;
+    for (const [root, coverage] of this.cache) {
+      if (coverage.entryFiles.includes(fsPath)) {
+        this.cache.delete(root);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  clearCache() {
+    this.cache.clear();
+  }
+
+  // The nearest folder with a package.json, or the workspace folder
+  private findProjectRoot(document: vscode.TextDocument): string | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath;
+    let directory = path.dirname(document.uri.fsPath);
+
+    while (true) {
+      if (fs.existsSync(path.join(directory, 'package.json'))) {
+        return directory;
+      }
+
+      const parent = path.dirname(directory);
+      if (!folder || directory === folder || parent === directory || !directory.startsWith(folder)) {
+        return folder;
+      }
+      directory = parent;
+    }
+  }
+
+  private loadCoverage(root: string): PolyfillCoverage {
+    const features = new Map<string, string>();
+    const add = (featureIds: string[], source: string) => {
+      for (const featureId of featureIds) {
+        if (!features.has(featureId)) {
+          features.set(featureId, source);
+        }
+      }
+    };
+
+    const manifest = readPackageManifest(path.join(root, 'package.json'));
+
+    // devDependencies are left out: polyfills there are usually for tests in jsdom
+    for (const name of Object.keys(manifest?.dependencies || {})) {
+      if (POLYFILL_PACKAGES[name]) {
+        add(POLYFILL_PACKAGES[name], `${name} (package.json)`);
+      }
+    }
+
+    const entryFiles = this.findEntryFiles(root, manifest);
+    for (const file of entryFiles) {
+      const relative = path.relative(root, file).replace(/\\/g, '/');
+      const { modules, urls } = findPolyfillReferences(fs.readFileSync(file, 'utf8'));
+      for (const specifier of modules) {
+        add(featuresForModule(specifier), `${specifier} (${relative})`);
+      }
+      for (const url of urls) {
+        add(featuresForPolyfillUrl(url), `polyfill service (${relative})`);
+      }
+    }
+
+    return { features, entryFiles };
+  }
+
+  private findEntryFiles(root: string, manifest: PackageManifest | undefined): string[] {
+    const fields = (['main', 'module', 'browser', 'source'] as const)
+      .map(field => manifest?.[field])
+      .filter((value): value is string => typeof value === 'string');
+
+    const files = new Set<string>();
+    for (const entry of [...fields, ...ENTRY_FILES]) {
+      const file = path.resolve(root, entry);
+      try {
+        const stat = fs.statSync(file);
+        if (stat.isFile() && stat.size <= MAX_ENTRY_SIZE) {
+          files.add(file);
+        }
+      } catch {
+        // Not every project has every conventional entry file
+      }
+    }
+    return [...files];
+  }
+}
@@ -0,0 +1,305 @@
+// src/services/runtimeContext.ts
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { SYMBOL_FEATURE_MAP } from '../utils/symbolFeatureMap';
+import { PackageManifest, readPackageManifest } from '../utils/packageManifest';
+
+export type Runtime = 'browser' | 'worker' | 'node' | 'universal';
+
+export interface RuntimeClassification {
+  runtime: Runtime;
+  // The signal that decided it, e.g. `imports 'node:fs'`
+  reason: string;
+}
+
+export type RuntimeGlobs = { [runtime in Runtime]?: string[] };
+
+// Built-ins without a browser shim on npm (`events`, `buffer`, `url` have one, so they prove nothing)
+const NODE_BUILTINS = [
+  'async_hooks', 'child_process', 'cluster', 'dgram', 'dns', 'fs', 'fs/promises', 'http', 'http2', 'https',
+  'module', 'net', 'os', 'path', 'perf_hooks', 'readline', 'tls', 'tty', 'v8', 'vm', 'worker_threads', 'zlib'
+];
+
+const IMPORT_PATTERN = /\b(?:import\s*(?:[\w$*{}\s,]+\s*from\s*)?|require\s*\(\s*|import\s*\(\s*)['"]([^'"]+)['"]/g;
+const NODE_GLOBALS = /\b(?:__dirname|__filename|process\.(?:argv|exit|cwd)\b)/;
+const NODE_REFERENCE = /^\/\/\/\s*<reference\s+types=["']node["']/m;
+const WORKER_REFERENCE = /^\/\/\/\s*<reference\s+lib=["']webworker["']/m;
+const WORKER_GLOBALS = /\b(?:importScripts\s*\(|(?:Dedicated|Shared|ServiceWorker)GlobalScope\b|self\.(?:onmessage\s*=|addEventListener\s*\(\s*['"](?:message|install|activate|fetch)['"]|skipWaiting\s*\())/;
+
+// TypeScript lib files declaring the browser and worker globals
+const DOM_LIB = 'lib.dom.d.ts';
+const WORKER_LIB = 'lib.webworker.d.ts';
+const LIB_DECLARATION = /^(?:declare\s+)?(?:interface|var|function|class|namespace|type)\s+([\w$]+)/gm;
+
+export class RuntimeContextService {
+  private static instance: RuntimeContextService;
+  // Project-level classification per folder; null when the folder gives no signal
+  private cache = new Map<string, RuntimeClassification | null>();
+  private outputChannel: vscode.OutputChannel | undefined;
+
+  static getInstance(): RuntimeContextService {
+    if (!RuntimeContextService.instance) {
+      RuntimeContextService.instance = new RuntimeContextService();
+    }
+    return RuntimeContextService.instance;
+  }
+
+  setOutputChannel(channel: vscode.OutputChannel) {
+    this.outputChannel = channel;
+  }
+
+  /**
+   * Decides where a script runs. The first signal that applies wins:
+   * `baselineGuard.runtimeGlobs`, the file's own imports and globals, the
+   * package.json `browser`/`bin` fields, then the nearest tsconfig/jsconfig
+   * `lib` and `types`. Without any signal a script is taken to run in the browser.
+   */
+  classify(document: vscode.TextDocument): RuntimeClassification {
+    const classification = this.fromGlobs(document)
+      || classifySource(document.getText())
+      || this.fromProject(document)
+      || { runtime: 'browser', reason: 'default' };
+
+    this.outputChannel?.appendLine(`🧭 Runtime: ${classification.runtime} (${classification.reason})`);
+    return classification;
+  }
+
+  clearCache() {
+    this.cache.clear();
+  }
+
+  private fromGlobs(document: vscode.TextDocument): RuntimeClassification | undefined {
+    const globs = getRuntimeGlobs();
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+
+    for (const runtime of ['node', 'worker', 'universal', 'browser'] as Runtime[]) {
+      const glob = (globs[runtime] || []).find(pattern => {
+        const selector = folder ? { pattern: new vscode.RelativePattern(folder, pattern) } : { pattern };
+        return vscode.languages.match(selector, document) > 0;
+      });
+      if (glob) {
+        return { runtime, reason: `baselineGuard.runtimeGlobs: ${glob}` };
+      }
+    }
+    return undefined;
+  }
+
+  private fromProject(document: vscode.TextDocument): RuntimeClassification | undefined {
+    if (document.uri.scheme !== 'file') {
+      return undefined;
+    }
+
+    // package.json fields name individual files, so they are checked per file
+    const manifest = this.findUp(document, 'package.json');
+    if (manifest) {
+      const fromManifest = classifyFromPackageJson(readPackageManifest(manifest), path.relative(path.dirname(manifest), document.uri.fsPath));
+      if (fromManifest) {
+        return fromManifest;
+      }
+    }
+
+    const directory = path.dirname(document.uri.fsPath);
+    if (!this.cache.has(directory)) {
+      const config = this.findUp(document, 'tsconfig.json') || this.findUp(document, 'jsconfig.json');
+      this.cache.set(directory, config ? this.classifyFromTsConfig(config) || null : null);
+    }
+    return this.cache.get(directory) || undefined;
+  }
+
+  private classifyFromTsConfig(configPath: string): RuntimeClassification | undefined {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      return undefined;
+    }
+
+    // Only compiler options are needed, so skip enumerating the project's files
+    const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+    const { options } = ts.parseJsonConfigFileContent(config, host, path.dirname(configPath));
+    const classification = classifyCompilerOptions(options.lib, options.types);
+    return classification && { ...classification, reason: `${path.basename(configPath)} ${classification.reason}` };
+  }
+
+  private findUp(document: vscode.TextDocument, fileName: string): string | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath;
+    let directory = path.dirname(document.uri.fsPath);
+
+    while (true) {
+      const file = path.join(directory, fileName);
+      if (fs.existsSync(file)) {
+        return file;
+      }
+
+      const parent = path.dirname(directory);
+      if (!folder || directory === folder || parent === directory || !directory.startsWith(folder)) {
+        return undefined;
+      }
+      directory = parent;
+    }
+  }
+}
+
+/**
+ * Classifies a script by what it imports and the globals it relies on.
+ */
+export function classifySource(text: string): RuntimeClassification | undefined {
+  if (NODE_REFERENCE.test(text)) {
+    return { runtime: 'node', reason: '/// <reference types="node" />' };
+  }
+  if (WORKER_REFERENCE.test(text)) {
+    return { runtime: 'worker', reason: '/// <reference lib="webworker" />' };
+  }
+
+  for (const match of text.matchAll(IMPORT_PATTERN)) {
+    const specifier = match[1];
+    if (specifier.startsWith('node:') || NODE_BUILTINS.includes(specifier)) {
+      return { runtime: 'node', reason: `imports '${specifier}'` };
+    }
+  }
+
+  const nodeGlobal = NODE_GLOBALS.exec(text);
+  if (nodeGlobal) {
+    return { runtime: 'node', reason: `uses ${nodeGlobal[0]}` };
+  }
+  const workerGlobal = WORKER_GLOBALS.exec(text);
+  if (workerGlobal) {
+    return { runtime: 'worker', reason: `uses ${workerGlobal[0].replace(/\s*\($/, '()')}` };
+  }
+
+  return undefined;
+}
+
+/**
+ * Classifies a file by package.json: files the `browser` field swaps out are
+ * Node.js code, the file it points to runs in the browser, and `bin` scripts
+ * run under Node.js. `relativePath` is relative to the package.json folder.
+ */
+export function classifyFromPackageJson(manifest: PackageManifest | undefined, relativePath: string): RuntimeClassification | undefined {
+  const normalize = (file: string) => path.posix.normalize(file.replace(/\\/g, '/')).replace(/^\.\//, '');
+  const file = normalize(relativePath);
+  const browser = manifest?.browser;
+
+  if (typeof browser === 'string' && normalize(browser) === file) {
+    return { runtime: 'browser', reason: 'package.json "browser"' };
+  }
+  if (browser && typeof browser === 'object') {
+    for (const [source, replacement] of Object.entries(browser)) {
+      if (normalize(source) === file) {
+        return { runtime: 'node', reason: 'replaced by package.json "browser"' };
+      }
+      if (typeof replacement === 'string' && normalize(replacement) === file) {
+        return { runtime: 'browser', reason: 'package.json "browser"' };
+      }
+    }
+  }
+
+  const bin = manifest?.bin;
+  const binFiles = typeof bin === 'string' ? [bin] : Object.values(bin || {});
+  if (binFiles.some(binFile => typeof binFile === 'string' && normalize(binFile) === file)) {
+    return { runtime: 'node', reason: 'package.json "bin"' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Classifies a project by its compiler `lib` and `types`. Without `lib` the
+ * compiler includes the DOM, so only `types` can tell.
+ */
+export function classifyCompilerOptions(lib: string[] | undefined, types: string[] | undefined): RuntimeClassification | undefined {
+  const libs = (lib || []).map(name => name.toLowerCase().replace(/^lib\.|\.d\.ts$/g, ''));
+  const hasDom = lib === undefined || libs.some(name => name === 'dom' || name.startsWith('dom.'));
+  const hasWorker = libs.some(name => name.startsWith('webworker'));
+  const hasNode = (types || []).includes('node');
+
+  if (lib !== undefined && hasDom && hasNode) {
+    return { runtime: 'universal', reason: 'lib "dom" with types "node"' };
+  }
+  if (lib !== undefined && hasDom) {
+    return { runtime: 'browser', reason: 'lib "dom"' };
+  }
+  if (hasWorker) {
+    return { runtime: 'worker', reason: 'lib "webworker"' };
+  }
+  if (hasNode) {
+    return lib === undefined
+      ? { runtime: 'universal', reason: 'types "node"' }
+      : { runtime: 'node', reason: 'types "node" without lib "dom"' };
+  }
+  return undefined;
+}
+
+let workerFeatures: { available: Set<string>; mapped: Set<string> } | undefined;
+
+/**
+ * Whether a feature can be used from a worker. A feature is DOM-only when
+ * every API it maps to is declared for windows (lib.dom.d.ts) but not for
+ * workers (lib.webworker.d.ts); syntax, built-ins and features without an
+ * API mapping apply everywhere.
+ */
+export function isAvailableInWorkers(featureId: string): boolean {
+  if (!workerFeatures) {
+    workerFeatures = collectWorkerFeatures();
+  }
+  return workerFeatures.available.has(featureId) || !workerFeatures.mapped.has(featureId);
+}
+
+function collectWorkerFeatures(): { available: Set<string>; mapped: Set<string> } {
+  const libDirectory = path.dirname(ts.getDefaultLibFilePath({}));
+  const domText = ts.sys.readFile(path.join(libDirectory, DOM_LIB)) || '';
+  const domNames = new Set(Array.from(domText.matchAll(LIB_DECLARATION), match => match[1]));
+  const worker = readWorkerDeclarations(path.join(libDirectory, WORKER_LIB));
+
+  const available = new Set<string>();
+  for (const [symbol, featureId] of Object.entries(SYMBOL_FEATURE_MAP)) {
+    const [root, member] = symbol.split('.');
+    // `Navigator.locks` is `WorkerNavigator.locks` in a worker
+    if (!domNames.has(root) || worker.globals.has(root) ||
+        (member !== undefined && worker.hasMember(`Worker${root}`, member))) {
+      available.add(featureId);
+    }
+  }
+  return { available, mapped: new Set(Object.values(SYMBOL_FEATURE_MAP)) };
+}
+
+// Global names in the worker lib, and interface members including inherited mixins
+function readWorkerDeclarations(file: string) {
+  const sourceFile = ts.createSourceFile(file, ts.sys.readFile(file) || '', ts.ScriptTarget.Latest);
+  const globals = new Set<string>();
+  const interfaces = new Map<string, { members: Set<string>; bases: string[] }>();
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isInterfaceDeclaration(statement)) {
+      const declaration = interfaces.get(statement.name.text) || { members: new Set<string>(), bases: [] };
+      for (const member of statement.members) {
+        if (member.name && ts.isIdentifier(member.name)) {
+          declaration.members.add(member.name.text);
+        }
+      }
+      for (const clause of statement.heritageClauses || []) {
+        declaration.bases.push(...clause.types.map(type => type.expression.getText(sourceFile)));
+      }
+      interfaces.set(statement.name.text, declaration);
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => globals.add(declaration.name.getText(sourceFile)));
+    } else if ((ts.isFunctionDeclaration(statement) || ts.isModuleDeclaration(statement)) && statement.name) {
+      globals.add(statement.name.getText(sourceFile));
+    }
+  }
+
+  const hasMember = (name: string, member: string, seen = new Set<string>()): boolean => {
+    const declaration = interfaces.get(name);
+    if (!declaration || seen.has(name)) {
+      return false;
+    }
+    seen.add(name);
+    return declaration.members.has(member) || declaration.bases.some(base => hasMember(base, member, seen));
+  };
+
+  return { globals, hasMember };
+}
+
+export function getRuntimeGlobs(): RuntimeGlobs {
+  return vscode.workspace.getConfiguration('baselineGuard').get<RuntimeGlobs>('runtimeGlobs', {});
+}
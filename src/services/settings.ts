@@ -0,0 +1,140 @@
+// src/services/settings.ts
+import * as vscode from 'vscode';
+import { BaselineStatus } from '../webStatusApi';
+import { SEVERITY_MAPPING } from '../utils/constants';
+
+export const SEVERITY_LEVELS = ['error', 'warning', 'information', 'hint', 'off'] as const;
+
+export type SeverityLevel = typeof SEVERITY_LEVELS[number];
+
+// Severity per Baseline status, and for features without one
+export type StatusSeverities = { [status in BaselineStatus['status'] | 'unknown']: SeverityLevel };
+
+/**
+ * The `baselineGuard.*` settings that shape findings, read once per
+ * workspace folder and kept up to date as the configuration changes.
+ */
+export interface BaselineGuardSettings {
+  // False when the toggle command has turned analysis off
+  enabled: boolean;
+  minimumConfidence: number;
+  showHints: boolean;
+  severity: StatusSeverities;
+  analysisMode: 'syntactic' | 'typeAware';
+  // Template literal tags analyzed as CSS
+  cssInJsTags: string[];
+  transpiledSyntax: 'hint' | 'hide';
+  // Unparsed; see parseBaselineTarget
+  baselineTarget: string;
+}
+
+// Settings whose change alters the findings of documents already analyzed
+const ANALYSIS_SETTINGS = [
+  'enabled',
+  'minimumConfidence',
+  'showHints',
+  'severity',
+  'baselineTarget',
+  'browserslistEnv',
+  'analysisMode',
+  'cssInJsTags',
+  'transpiledSyntax',
+  'runtimeGlobs'
+];
+
+export class SettingsService {
+  private static instance: SettingsService;
+  // Settings per workspace folder URI; '' for files outside the workspace folders
+  private settings = new Map<string, BaselineGuardSettings>();
+  private changeEmitter = new vscode.EventEmitter<vscode.ConfigurationChangeEvent>();
+  private outputChannel: vscode.OutputChannel | undefined;
+
+  /**
+   * Fires after a change to the `baselineGuard` configuration; `get` then
+   * returns the new settings.
+   */
+  readonly onDidChange = this.changeEmitter.event;
+
+  static getInstance(): SettingsService {
+    if (!SettingsService.instance) {
+      SettingsService.instance = new SettingsService();
+    }
+    return SettingsService.instance;
+  }
+
+  setOutputChannel(channel: vscode.OutputChannel) {
+    this.outputChannel = channel;
+  }
+
+  /**
+   * The settings in effect for a resource, with the folder settings of its
+   * workspace folder applied. Without a resource, the workspace settings.
+   */
+  get(resource?: vscode.Uri): BaselineGuardSettings {
+    const folder = resource && vscode.workspace.getWorkspaceFolder(resource);
+    const key = folder ? folder.uri.toString() : '';
+    let settings = this.settings.get(key);
+    if (!settings) {
+      settings = readSettings(vscode.workspace.getConfiguration('baselineGuard', folder?.uri));
+      this.settings.set(key, settings);
+    }
+    return settings;
+  }
+
+  /**
+   * Starts following configuration changes. Dispose the result to stop.
+   */
+  watch(): vscode.Disposable {
+    const listener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (!event.affectsConfiguration('baselineGuard')) {
+        return;
+      }
+      this.settings.clear();
+      const settings = this.get();
+      this.outputChannel?.appendLine(
+        `⚙️ Settings changed: ${settings.enabled ? 'enabled' : 'disabled'}, confidence ≥ ${settings.minimumConfidence}, ` +
+        `hints ${settings.showHints ? 'shown' : 'hidden'}, ` +
+        Object.entries(settings.severity).map(([status, level]) => `${status} → ${level}`).join(', ')
+      );
+      this.changeEmitter.fire(event);
+    });
+    return listener;
+  }
+}
+
+/**
+ * Reads the settings from a configuration section, falling back to the
+ * defaults for missing or invalid values.
+ */
+export function readSettings(config: Pick<vscode.WorkspaceConfiguration, 'get'>): BaselineGuardSettings {
+  const minimumConfidence = config.get<number>('minimumConfidence', 0.6);
+  const cssInJsTags = config.get<string[]>('cssInJsTags', []);
+  const baselineTarget = config.get<string>('baselineTarget', '');
+  const configured = config.get<Partial<StatusSeverities>>('severity', {}) || {};
+
+  const severity = { ...SEVERITY_MAPPING } as StatusSeverities;
+  for (const status of Object.keys(severity) as Array<keyof StatusSeverities>) {
+    const level = configured[status];
+    if (level !== undefined && SEVERITY_LEVELS.includes(level)) {
+      severity[status] = level;
+    }
+  }
+
+  return {
+    enabled: config.get<boolean>('enabled', true) !== false,
+    minimumConfidence: typeof minimumConfidence === 'number' ? Math.min(1, Math.max(0, minimumConfidence)) : 0.6,
+    showHints: config.get<boolean>('showHints', true) !== false,
+    severity,
+    analysisMode: config.get<string>('analysisMode', 'syntactic') === 'typeAware' ? 'typeAware' : 'syntactic',
+    cssInJsTags: Array.isArray(cssInJsTags) ? cssInJsTags.filter(tag => typeof tag === 'string') : [],
+    transpiledSyntax: config.get<string>('transpiledSyntax', 'hint') === 'hide' ? 'hide' : 'hint',
+    baselineTarget: typeof baselineTarget === 'string' ? baselineTarget : ''
+  };
+}
+
+/**
+ * Whether a configuration change alters the findings of analyzed documents.
+ */
+export function affectsAnalysis(event: vscode.ConfigurationChangeEvent): boolean {
+  return ANALYSIS_SETTINGS.some(key => event.affectsConfiguration(`baselineGuard.${key}`));
+}
@@ -0,0 +1,209 @@
+// src/services/transpileTargets.ts
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { PackageManifest, readJsonFile, readPackageManifest } from '../utils/packageManifest';
+
+const BABEL_CONFIG_FILES = ['babel.config.json', '.babelrc', '.babelrc.json'];
+const BUNDLER_CONFIG_FILES = [
+  'vite.config.ts', 'vite.config.js', 'vite.config.mjs', 'vite.config.mts',
+  'esbuild.config.js', 'esbuild.config.mjs', 'esbuild.js', 'esbuild.mjs'
+];
+const PRESET_ENV_NAMES = ['@babel/preset-env', '@babel/env', 'babel-preset-env', 'env'];
+
+/**
+ * How the project's toolchain lowers syntax before it reaches a browser.
+ */
+export interface TranspileTarget {
+  // Syntax from later ECMAScript editions is rewritten; undefined when the
+  // toolchain rewrites whatever the browser targets lack (Babel preset-env)
+  esVersion?: number;
+  // Where the target comes from, e.g. `tsconfig.json (target ES2017)`
+  source: string;
+}
+
+export class TranspileTargetService {
+  private static instance: TranspileTargetService;
+  private cache = new Map<string, TranspileTarget | null>();
+  private outputChannel: vscode.OutputChannel | undefined;
+
+  static getInstance(): TranspileTargetService {
+    if (!TranspileTargetService.instance) {
+      TranspileTargetService.instance = new TranspileTargetService();
+    }
+    return TranspileTargetService.instance;
+  }
+
+  setOutputChannel(channel: vscode.OutputChannel) {
+    this.outputChannel = channel;
+  }
+
+  /**
+   * Finds the compiler or bundler target that applies to a script document.
+   * When several tools are configured, the one that lowers the most wins.
+   */
+  getTarget(document: vscode.TextDocument): TranspileTarget | undefined {
+    // Inline <script> in plain HTML is served as written
+    if (document.uri.scheme !== 'file' || document.languageId === 'html') {
+      return undefined;
+    }
+
+    const isTypeScript = ['typescript', 'typescriptreact'].includes(document.languageId);
+    const directory = path.dirname(document.uri.fsPath);
+    const cacheKey = `${directory}|${isTypeScript}`;
+
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey) || undefined;
+    }
+
+    const stopAt = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath;
+    const candidates = [
+      this.fromTsConfig(directory, stopAt, isTypeScript),
+      this.fromBabel(directory, stopAt),
+      this.fromBundler(directory, stopAt)
+    ].filter((target): target is TranspileTarget => target !== undefined);
+
+    const target = candidates.sort((a, b) => (a.esVersion ?? 0) - (b.esVersion ?? 0))[0];
+    if (target) {
+      this.outputChannel?.appendLine(`🔧 Transpile target for ${directory}: ${target.source}`);
+    }
+
+    this.cache.set(cacheKey, target || null);
+    return target;
+  }
+
+  clearCache() {
+    this.cache.clear();
+  }
+
+  private fromTsConfig(directory: string, stopAt: string | undefined, isTypeScript: boolean): TranspileTarget | undefined {
+    const configPath = findUp(directory, stopAt, isTypeScript ? ['tsconfig.json'] : ['tsconfig.json', 'jsconfig.json']);
+    if (!configPath) {
+      return undefined;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      this.outputChannel?.appendLine(`⚠️ Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, ' ')}`);
+      return undefined;
+    }
+
+    // Only compiler options are needed, so skip enumerating the project's files
+    const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+    const { options } = ts.parseJsonConfigFileContent(config, host, path.dirname(configPath));
+    const isJsConfig = path.basename(configPath) === 'jsconfig.json';
+
+    // A tsconfig only compiles JavaScript with allowJs, and never with noEmit
+    if (options.noEmit || (!isTypeScript && !isJsConfig && !options.allowJs)) {
+      return undefined;
+    }
+    // jsconfig.json only describes the editor's view, so it needs an explicit target
+    if (isJsConfig && options.target === undefined) {
+      return undefined;
+    }
+
+    const target = options.target ?? ts.ScriptTarget.ES5;
+    const name = ts.ScriptTarget[target];
+    return {
+      esVersion: parseEsVersion(name),
+      source: `${path.basename(configPath)} (target ${name})`
+    };
+  }
+
+  private fromBabel(directory: string, stopAt: string | undefined): TranspileTarget | undefined {
+    const configPath = findUp(directory, stopAt, [...BABEL_CONFIG_FILES, 'package.json'], file => {
+      return path.basename(file) !== 'package.json' || readPackageManifest(file)?.babel !== undefined;
+    });
+    if (!configPath) {
+      return undefined;
+    }
+
+    const config = path.basename(configPath) === 'package.json'
+      ? readPackageManifest(configPath)?.babel
+      : readJsonFile(configPath) as PackageManifest['babel'];
+    if (!hasPresetEnv(config)) {
+      return undefined;
+    }
+
+    return { source: `${path.basename(configPath)} (@babel/preset-env)` };
+  }
+
+  private fromBundler(directory: string, stopAt: string | undefined): TranspileTarget | undefined {
+    const configPath = findUp(directory, stopAt, BUNDLER_CONFIG_FILES, file => {
+      return findBuildTarget(fs.readFileSync(file, 'utf8')) !== undefined;
+    });
+    if (!configPath) {
+      return undefined;
+    }
+
+    const esVersion = findBuildTarget(fs.readFileSync(configPath, 'utf8'))!;
+    return { esVersion, source: `${path.basename(configPath)} (target es${esVersion})` };
+  }
+}
+
+/**
+ * Whether the toolchain rewrites syntax added in `esVersion`.
+ */
+export function lowersSyntax(target: TranspileTarget, esVersion: number): boolean {
+  return target.esVersion === undefined || esVersion > target.esVersion;
+}
+
+/**
+ * `ES2017` / `es2017` → 2017, `ES5` → 2009, `ESNext` → Infinity.
+ */
+export function parseEsVersion(name: string): number {
+  const lower = name.toLowerCase();
+  if (lower === 'esnext' || lower === 'latest') {
+    return Infinity;
+  }
+  const year = /^es(\d{4})$/.exec(lower);
+  if (year) {
+    return Number(year[1]);
+  }
+  return { es3: 1999, es5: 2009, es6: 2015 }[lower] ?? Infinity;
+}
+
+/**
+ * Reads an ES target from a vite/esbuild config: `build: { target: 'es2017' }`
+ * or `target: ['es2020', 'chrome87']`. Browser names are left to browserslist.
+ */
+export function findBuildTarget(text: string): number | undefined {
+  const target = /\btarget\s*:\s*(\[[^\]]*\]|'[^']*'|"[^"]*")/.exec(text);
+  if (!target) {
+    return undefined;
+  }
+
+  const versions = (target[1].match(/\bes(\d{4}|next|[356])\b/gi) || []).map(parseEsVersion);
+  return versions.length > 0 ? Math.min(...versions) : undefined;
+}
+
+export function hasPresetEnv(config: { presets?: unknown[] } | undefined): boolean {
+  const presets = config?.presets;
+  return Array.isArray(presets) && presets.some(preset => {
+    const name = Array.isArray(preset) ? preset[0] : preset;
+    return typeof name === 'string' && PRESET_ENV_NAMES.includes(name);
+  });
+}
+
+function findUp(
+  directory: string,
+  stopAt: string | undefined,
+  names: string[],
+  accept: (file: string) => boolean = () => true
+): string | undefined {
+  while (true) {
+    for (const name of names) {
+      const file = path.join(directory, name);
+      if (fs.existsSync(file) && accept(file)) {
+        return file;
+      }
+    }
+
+    const parent = path.dirname(directory);
+    if (directory === stopAt || parent === directory || (stopAt && !directory.startsWith(stopAt))) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
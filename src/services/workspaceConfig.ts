@@ -0,0 +1,284 @@
+// src/services/workspaceConfig.ts
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { PatternInfo } from '../utils/enhancedPatterns';
+import { Audience, AudienceTable, parseAudienceTable } from '../utils/impact';
+
+export const CONFIG_FILE_NAME = '.baselineguard.json';
+
+export type RuleSetting = 'off' | 'on' | 'error' | 'warning' | 'info' | 'hint';
+
+export interface LanguageConfig {
+  enabled?: boolean;
+  minimumConfidence?: number;
+  rules?: { [featureId: string]: RuleSetting };
+}
+
+// A pattern as written in the config file: PatternInfo with the RegExp and SyntaxKind spelled as strings
+export interface CustomPatternConfig {
+  featureId: string;
+  pattern: string;
+  flags?: string;
+  language: string[];
+  confidence?: number;
+  category?: PatternInfo['category'];
+  description?: string;
+  astPattern?: {
+    nodeType: 'NewExpression' | 'CallExpression' | 'QuestionDotToken';
+    objectName?: string;
+    methodName?: string;
+  };
+}
+
+/**
+ * Contents of a .baselineguard.json file; see schemas/baselineguard.schema.json.
+ */
+export interface BaselineGuardConfigFile {
+  root?: boolean;
+  rules?: { [featureId: string]: RuleSetting };
+  include?: string[];
+  exclude?: string[];
+  minimumConfidence?: number;
+  targets?: string | string[];
+  baselineTarget?: string;
+  // A browser-share table, or the path of a JSON file holding one relative to this file
+  audience?: string | AudienceTable;
+  languages?: { [languageId: string]: LanguageConfig };
+  patterns?: CustomPatternConfig[];
+}
+
+/**
+ * The configuration in effect for one document, with every config file from
+ * the workspace folder down to the document's folder merged in order.
+ */
+export interface WorkspaceConfig {
+  // Config files that apply, outermost first
+  files: string[];
+  // False when the language is disabled or the file is outside include/exclude
+  enabled: boolean;
+  rules: Map<string, RuleSetting>;
+  patterns: PatternInfo[];
+  minimumConfidence?: number;
+  targets?: string[];
+  baselineTarget?: string;
+  // The audience table of the innermost config file that has one
+  audience?: Audience;
+}
+
+interface LoadedConfigFile {
+  path: string;
+  directory: string;
+  config: BaselineGuardConfigFile;
+}
+
+export class WorkspaceConfigService {
+  private static instance: WorkspaceConfigService;
+  // Parsed config file per folder; null when the folder has none
+  private files = new Map<string, LoadedConfigFile | null>();
+  // Parsed audience table per table file, or per config file for inline tables; null when unreadable
+  private audiences = new Map<string, Audience | null>();
+  private outputChannel: vscode.OutputChannel | undefined;
+
+  static getInstance(): WorkspaceConfigService {
+    if (!WorkspaceConfigService.instance) {
+      WorkspaceConfigService.instance = new WorkspaceConfigService();
+    }
+    return WorkspaceConfigService.instance;
+  }
+
+  setOutputChannel(channel: vscode.OutputChannel) {
+    this.outputChannel = channel;
+  }
+
+  /**
+   * Resolves the configuration for a document. Returns undefined when no
+   * config file applies.
+   */
+  getConfig(document: vscode.TextDocument): WorkspaceConfig | undefined {
+    if (document.uri.scheme !== 'file') {
+      return undefined;
+    }
+
+    const layers = this.findConfigFiles(document);
+    if (layers.length === 0) {
+      return undefined;
+    }
+
+    const resolved = mergeConfigFiles(layers.map(layer => layer.config), document.languageId);
+    const included = layers.every(layer => this.isIncluded(document, layer));
+
+    return {
+      ...resolved,
+      files: layers.map(layer => layer.path),
+      enabled: resolved.enabled && included,
+      patterns: this.compilePatterns(layers),
+      audience: this.loadAudience(layers)
+    };
+  }
+
+  clearCache() {
+    this.files.clear();
+    this.audiences.clear();
+  }
+
+  private findConfigFiles(document: vscode.TextDocument): LoadedConfigFile[] {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const stopAt = folder ? folder.uri.fsPath : path.parse(document.uri.fsPath).root;
+    const layers: LoadedConfigFile[] = [];
+
+    let directory = path.dirname(document.uri.fsPath);
+    while (true) {
+      const loaded = this.loadConfigFile(directory);
+      if (loaded) {
+        layers.unshift(loaded);
+        if (loaded.config.root) {
+          break;
+        }
+      }
+
+      const parent = path.dirname(directory);
+      if (directory === stopAt || parent === directory || !directory.startsWith(stopAt)) {
+        break;
+      }
+      directory = parent;
+    }
+
+    return layers;
+  }
+
+  private loadConfigFile(directory: string): LoadedConfigFile | null {
+    if (this.files.has(directory)) {
+      return this.files.get(directory)!;
+    }
+
+    const configPath = path.join(directory, CONFIG_FILE_NAME);
+    let loaded: LoadedConfigFile | null = null;
+
+    try {
+      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        throw new Error('expected an object');
+      }
+      loaded = { path: configPath, directory, config };
+      this.outputChannel?.appendLine(`⚙️ Loaded ${configPath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.outputChannel?.appendLine(`⚠️ Ignoring invalid ${configPath}: ${error}`);
+        vscode.window.showWarningMessage(`BaselineGuard: ${CONFIG_FILE_NAME} could not be read (${error})`);
+      }
+    }
+
+    this.files.set(directory, loaded);
+    return loaded;
+  }
+
+  // Globs are relative to the folder of the config file that declares them
+  private isIncluded(document: vscode.TextDocument, layer: LoadedConfigFile): boolean {
+    const matches = (glob: string) =>
+      vscode.languages.match({ pattern: new vscode.RelativePattern(layer.directory, glob) }, document) > 0;
+
+    const { include, exclude } = layer.config;
+    if (include && include.length > 0 && !include.some(matches)) {
+      return false;
+    }
+    return !(exclude || []).some(matches);
+  }
+
+  private loadAudience(layers: LoadedConfigFile[]): Audience | undefined {
+    const layer = [...layers].reverse().find(candidate => candidate.config.audience !== undefined);
+    if (!layer) {
+      return undefined;
+    }
+
+    const declared = layer.config.audience!;
+    const source = typeof declared === 'string' ? path.resolve(layer.directory, declared) : layer.path;
+    if (this.audiences.has(source)) {
+      return this.audiences.get(source) || undefined;
+    }
+
+    let audience: Audience | null = null;
+    try {
+      const table = typeof declared === 'string' ? JSON.parse(fs.readFileSync(source, 'utf8')) : declared;
+      audience = parseAudienceTable(table);
+      this.outputChannel?.appendLine(`👥 Audience from ${source}: ${audience.shares.length} browser shares`);
+      if (audience.untracked.length > 0) {
+        this.outputChannel?.appendLine(`   Not scored (no WebStatus data): ${audience.untracked.join(', ')}`);
+      }
+    } catch (error) {
+      this.outputChannel?.appendLine(`⚠️ Ignoring audience table ${source}: ${error}`);
+      vscode.window.showWarningMessage(`BaselineGuard: the audience table ${path.basename(source)} could not be read (${error})`);
+    }
+
+    this.audiences.set(source, audience);
+    return audience || undefined;
+  }
+
+  private compilePatterns(layers: LoadedConfigFile[]): PatternInfo[] {
+    const patterns: PatternInfo[] = [];
+
+    for (const layer of layers) {
+      for (const custom of layer.config.patterns || []) {
+        try {
+          patterns.push(toPatternInfo(custom));
+        } catch (error) {
+          this.outputChannel?.appendLine(`⚠️ Skipping pattern for "${custom.featureId}" in ${layer.path}: ${error}`);
+        }
+      }
+    }
+
+    return patterns;
+  }
+}
+
+/**
+ * Merges config files outermost first: inner files override scalar settings
+ * and individual rules; language sections are merged per language.
+ */
+export function mergeConfigFiles(
+  configs: BaselineGuardConfigFile[],
+  languageId: string
+): Pick<WorkspaceConfig, 'enabled' | 'rules' | 'minimumConfidence' | 'targets' | 'baselineTarget'> {
+  const rules = new Map<string, RuleSetting>();
+  let enabled = true;
+  let minimumConfidence: number | undefined;
+  let targets: string[] | undefined;
+  let baselineTarget: string | undefined;
+
+  for (const config of configs) {
+    Object.entries(config.rules || {}).forEach(([featureId, rule]) => rules.set(featureId, rule));
+    minimumConfidence = config.minimumConfidence ?? minimumConfidence;
+    baselineTarget = config.baselineTarget ?? baselineTarget;
+    if (config.targets !== undefined) {
+      targets = typeof config.targets === 'string' ? [config.targets] : config.targets;
+    }
+
+    const language = config.languages?.[languageId];
+    if (language) {
+      enabled = language.enabled ?? enabled;
+      minimumConfidence = language.minimumConfidence ?? minimumConfidence;
+      Object.entries(language.rules || {}).forEach(([featureId, rule]) => rules.set(featureId, rule));
+    }
+  }
+
+  return { enabled, rules, minimumConfidence, targets, baselineTarget };
+}
+
+export function toPatternInfo(custom: CustomPatternConfig): PatternInfo {
+  const flags = (custom.flags || '').includes('g') ? custom.flags! : `${custom.flags || ''}g`;
+
+  return {
+    featureId: custom.featureId,
+    pattern: new RegExp(custom.pattern, flags),
+    language: custom.language,
+    confidence: custom.confidence ?? 0.9,
+    category: custom.category || 'api',
+    description: custom.description || custom.featureId,
+    astPattern: custom.astPattern && {
+      nodeType: ts.SyntaxKind[custom.astPattern.nodeType],
+      objectName: custom.astPattern.objectName,
+      methodName: custom.astPattern.methodName
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+import { ApiFeatureDetector } from '../detectors/apiDetector';
+import { CssFeatureDetector } from '../detectors/cssDetector';
+import { GENERATED_RULES } from '../utils/generatedRules';
+import { SYMBOL_FEATURE_MAP } from '../utils/symbolFeatureMap';
+
+function detect(text: string) {
+	const sourceFile = ts.createSourceFile('app.ts', text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+	return new ApiFeatureDetector().detect(sourceFile).map(m => ({
+		featureId: m.featureId,
+		text: text.slice(m.start, m.end)
+	}));
+}
+
+suite('API Detector Test Suite', () => {
+	test('resolves constructors, statics, global objects and global functions', () => {
+		assert.deepStrictEqual(detect('new IntersectionObserver(cb);'), [{ featureId: 'intersection-observer', text: 'new IntersectionObserver(cb)' }]);
+		assert.deepStrictEqual(detect('Object.hasOwn(o, k);'), [{ featureId: 'object-hasown', text: 'Object.hasOwn' }]);
+		assert.deepStrictEqual(detect('const copy = structuredClone(value);'), [{ featureId: 'structured-clone', text: 'structuredClone' }]);
+		assert.deepStrictEqual(detect('window.navigator.share(data);'), [{ featureId: 'share', text: 'window.navigator.share' }]);
+	});
+
+	test('follows well-known properties of global objects', () => {
+		const found = detect('navigator.clipboard.writeText(text);');
+		assert.deepStrictEqual(found.map(m => m.text), ['navigator.clipboard.writeText', 'navigator.clipboard']);
+		assert.ok(found.every(m => m.featureId === 'async-clipboard'));
+	});
+
+	test('ignores members of arbitrary values and established APIs', () => {
+		assert.deepStrictEqual(detect('items.at(-1); share(data); Object.keys(o);'), []);
+	});
+
+	test('ignores calls to functions the file declares or imports', () => {
+		assert.deepStrictEqual(detect(`import { open } from 'fs/promises'; open('x');`), []);
+		assert.deepStrictEqual(detect('function stop() {} stop();'), []);
+		assert.deepStrictEqual(detect('const structuredClone = (v: any) => v; structuredClone(value);'), []);
+		assert.deepStrictEqual(detect('print();'), []);
+		assert.deepStrictEqual(detect('showOpenFilePicker();'), [{ featureId: 'file-system-access', text: 'showOpenFilePicker' }]);
+	});
+
+	test('generated rules fill gaps without overriding hand-written entries', () => {
+		assert.ok(Object.keys(GENERATED_RULES.symbols).length > 1000);
+		assert.strictEqual(SYMBOL_FEATURE_MAP['WakeLock.request'], 'screen-wake-lock');
+		assert.strictEqual(SYMBOL_FEATURE_MAP['ReadonlyArray.at'], 'array-at');
+
+		const css = new CssFeatureDetector().detect('.a { text-box-trim: both; width: round(10px, 3px); }');
+		assert.deepStrictEqual(css.map(m => m.featureId), ['text-box', 'round-mod-rem']);
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { WebFeature } from '../webStatusApi';
+import { evaluatePolicy, getWidelyAvailableDate, parseBaselineTarget, projectWidelyAvailable } from '../utils/baselinePolicy';
+
+function feature(baseline: WebFeature['baseline']): WebFeature {
+	return {
+		baseline,
+		browser_implementations: {},
+		feature_id: 'test-feature',
+		name: 'Test feature',
+		spec: { links: [] }
+	};
+}
+
+suite('Baseline Policy Test Suite', () => {
+	test('parses Baseline target settings', () => {
+		assert.strictEqual(parseBaselineTarget(''), undefined);
+		assert.strictEqual(parseBaselineTarget('next year'), undefined);
+		assert.deepStrictEqual(parseBaselineTarget('2022'), { kind: 'year', year: 2022, label: 'Baseline 2022' });
+		assert.strictEqual(parseBaselineTarget('widely')?.kind, 'widely');
+		assert.strictEqual(parseBaselineTarget('widely:2024-06-30')?.label, 'Widely available as of 2024-06-30');
+	});
+
+	test('classifies features against a Baseline year', () => {
+		const policy = parseBaselineTarget('2022')!;
+		assert.strictEqual(evaluatePolicy(feature({ status: 'widely', low_date: '2020-01-15' }), policy).inPolicy, true);
+		assert.strictEqual(evaluatePolicy(feature({ status: 'newly', low_date: '2023-03-14' }), policy).inPolicy, false);
+		assert.strictEqual(evaluatePolicy(feature({ status: 'limited' }), policy).inPolicy, false);
+		assert.strictEqual(evaluatePolicy(feature(undefined), policy).inPolicy, false);
+	});
+
+	test('projects the widely available date from the low date', () => {
+		const policy = parseBaselineTarget('widely:2025-12-31')!;
+		// 2023-03-14 + 30 months = 2025-09-14
+		assert.strictEqual(evaluatePolicy(feature({ status: 'newly', low_date: '2023-03-14' }), policy).inPolicy, true);
+		// 2023-09-18 + 30 months = 2026-03-18
+		assert.strictEqual(evaluatePolicy(feature({ status: 'newly', low_date: '2023-09-18' }), policy).inPolicy, false);
+		assert.strictEqual(
+			evaluatePolicy(feature({ status: 'widely', low_date: '2020-01-15', high_date: '2022-07-15' }), policy).inPolicy,
+			true
+		);
+	});
+
+	test('projects 30 months out, clamping to the end of the month', () => {
+		assert.strictEqual(projectWidelyAvailable('2023-03-27'), '2025-09-27');
+		assert.strictEqual(projectWidelyAvailable('2023-08-31'), '2026-02-28');
+		assert.strictEqual(
+			getWidelyAvailableDate(feature({ status: 'newly', low_date: '2023-08-31' })).toISOString().slice(0, 10),
+			'2026-02-28'
+		);
+
+		const policy = parseBaselineTarget('widely:2026-03-01')!;
+		assert.strictEqual(evaluatePolicy(feature({ status: 'newly', low_date: '2023-08-31' }), policy).inPolicy, true);
+	});
+});
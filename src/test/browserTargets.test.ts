@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { WebFeature } from '../webStatusApi';
+import { BROWSERSLIST_TO_WEBSTATUS, BrowserTargets, BrowserTargetsService, compareVersions } from '../services/browserTargets';
+
+function feature(support: { [browser: string]: string | undefined }): WebFeature {
+	const browser_implementations: WebFeature['browser_implementations'] = {};
+	for (const [browser, version] of Object.entries(support)) {
+		browser_implementations[browser] = version
+			? { date: '', status: 'available', version }
+			: { date: '', status: 'unavailable', version: '' };
+	}
+	return { feature_id: 'example', name: 'Example', browser_implementations, spec: { links: [] } };
+}
+
+function targets(minimumVersions: { [browser: string]: string }): BrowserTargets {
+	return { minimumVersions: new Map(Object.entries(minimumVersions)), untracked: [], queries: ['defaults'] };
+}
+
+suite('Browser Targets Test Suite', () => {
+	test('orders release versions numerically', () => {
+		assert.ok(compareVersions('15.4', '9') > 0);
+		assert.ok(compareVersions('15', '15.4') < 0);
+		assert.strictEqual(compareVersions('17.0', '17'), 0);
+		assert.ok(compareVersions('120', '99') > 0);
+	});
+
+	test('compares ranges by their first version', () => {
+		assert.strictEqual(compareVersions('15.2-15.3', '15.2'), 0);
+		assert.ok(compareVersions('15.2-15.3', '15.3') < 0);
+		assert.ok(compareVersions('16.0', '15.2-15.3') > 0);
+	});
+
+	test('places TP after and all before every release', () => {
+		assert.ok(compareVersions('TP', '18.4') > 0);
+		assert.ok(compareVersions('18.4', 'TP') < 0);
+		assert.strictEqual(compareVersions('TP', 'TP'), 0);
+		assert.ok(compareVersions('all', '1') < 0);
+		assert.ok(compareVersions('12.1', 'all') > 0);
+		assert.ok(compareVersions('TP', 'all') > 0);
+	});
+
+	test('maps browserslist names to WebStatus browsers', () => {
+		assert.strictEqual(BROWSERSLIST_TO_WEBSTATUS.and_chr, 'chrome_android');
+		assert.strictEqual(BROWSERSLIST_TO_WEBSTATUS.and_ff, 'firefox_android');
+		assert.strictEqual(BROWSERSLIST_TO_WEBSTATUS.ios_saf, 'safari_ios');
+		assert.strictEqual(BROWSERSLIST_TO_WEBSTATUS.safari, 'safari');
+		assert.strictEqual(BROWSERSLIST_TO_WEBSTATUS.op_mini, undefined);
+		assert.strictEqual(BROWSERSLIST_TO_WEBSTATUS.samsung, undefined);
+	});
+
+	test('lists targets without the feature or too old for it', () => {
+		const service = BrowserTargetsService.getInstance();
+		const gaps = service.findUnsupportedTargets(
+			feature({ chrome: '105', firefox: undefined, safari: '16.0', safari_ios: '15.4' }),
+			targets({ chrome: '109', firefox: '115', safari: '15.6', safari_ios: '15.4', edge: '120' })
+		);
+
+		assert.deepStrictEqual(gaps.map(gap => [gap.browser, gap.targetVersion, gap.supportedSince]), [
+			['firefox', '115', undefined],
+			['safari', '15.6', '16.0'],
+			['edge', '120', undefined]
+		]);
+	});
+});
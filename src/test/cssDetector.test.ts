@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { CssFeatureDetector } from '../detectors/cssDetector';
+
+function detect(text: string, syntax: 'css' | 'scss' | 'less' = 'css') {
+	return new CssFeatureDetector().detect(text, syntax).map(m => ({
+		featureId: m.featureId,
+		text: text.slice(m.start, m.end)
+	}));
+}
+
+suite('CSS Detector Test Suite', () => {
+	test('ignores comments and strings', () => {
+		const found = detect('/* .a:has(b) {} */ .a::before { content: ":has(x)"; }');
+		assert.deepStrictEqual(found, []);
+	});
+
+	test('points at properties, values, functions and units', () => {
+		const found = detect('.a { display: grid; height: 100dvh; color: color-mix(in oklch, red, oklch(0.5 0.1 20)); }');
+		assert.deepStrictEqual(found, [
+			{ featureId: 'grid', text: 'grid' },
+			{ featureId: 'viewport-unit-variants', text: '100dvh' },
+			{ featureId: 'color-mix', text: 'color-mix' },
+			{ featureId: 'oklab', text: 'oklch' }
+		]);
+	});
+
+	test('does not treat grid placement as grid layout', () => {
+		assert.deepStrictEqual(detect('.a { grid-area: main; }'), []);
+	});
+
+	test('detects selectors and at-rules', () => {
+		const found = detect('@container (min-width: 400px) { .card:has(> img) { width: 50cqi; } }');
+		assert.deepStrictEqual(found, [
+			{ featureId: 'container-queries', text: '@container' },
+			{ featureId: 'has', text: ':has' },
+			{ featureId: 'container-queries', text: '50cqi' }
+		]);
+	});
+
+	test('only reports nesting for plain CSS', () => {
+		assert.deepStrictEqual(detect('.a { & .b { color: red; } }'), [{ featureId: 'nesting', text: '&' }]);
+		assert.deepStrictEqual(detect('// .a:has(b)\n.a { & .b { color: red; } }', 'scss'), []);
+	});
+
+	test('marks findings inside a matching @supports block as guarded', () => {
+		const text = '@supports (container-type: inline-size) { .a { container-type: inline-size; } .b:has(img) {} }\n'
+			+ '@supports not (display: grid) { .c { container-type: size; } }';
+		const guards = new CssFeatureDetector().detect(text).map(m => [text.slice(m.start, m.end), m.guard]);
+		assert.deepStrictEqual(guards, [
+			['container-type', '@supports (container-type: inline-size)'],
+			[':has', undefined],
+			['container-type', undefined]
+		]);
+	});
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+import { CssInJsDetector } from '../detectors/cssInJsDetector';
+
+const TAGS = ['styled', 'css', 'keyframes'];
+
+function detect(text: string, tags = TAGS) {
+	const sourceFile = ts.createSourceFile('styles.ts', text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+	return new CssInJsDetector().detect(sourceFile, tags).map(m => ({
+		featureId: m.featureId,
+		text: text.slice(m.start, m.end)
+	}));
+}
+
+suite('CSS-in-JS Detector Test Suite', () => {
+	test('maps findings back into styled templates with interpolations', () => {
+		const found = detect('const Card = styled.div`\n  color: ${({ theme }) => theme.fg};\n  height: 100dvh;\n  ${Title}:has(img) { gap: 1rem; }\n`;');
+		assert.deepStrictEqual(found, [
+			{ featureId: 'viewport-unit-variants', text: '100dvh' },
+			{ featureId: 'has', text: ':has' }
+		]);
+	});
+
+	test('ends mixin interpolations before the next declaration', () => {
+		const found = detect('const Box = styled.div`\n  ${mixin}\n  aspect-ratio: 1;\n  ${({ wide }) => wide && css`width: 100%;`}\n  inset: 0;\n`;');
+		assert.deepStrictEqual(found.map(f => f.text), ['aspect-ratio', 'inset']);
+	});
+
+	test('matches tags by their root identifier', () => {
+		const found = detect('const B = styled(Button).attrs({})`container-type: inline-size;`; const c = css`aspect-ratio: 1;`;');
+		assert.deepStrictEqual(found.map(f => f.text), ['container-type', 'aspect-ratio']);
+	});
+
+	test('ignores unknown tags and plain strings', () => {
+		assert.deepStrictEqual(detect('const a = html`<p style="inset: 0">`; const b = "height: 100dvh";'), []);
+		assert.deepStrictEqual(detect('const c = css`aspect-ratio: 1;`;', []), []);
+	});
+
+	test('only reports nesting for lit templates', () => {
+		const styled = 'const a = css`.a { .b { color: red; } }`;';
+		assert.deepStrictEqual(detect(styled), []);
+		const lit = 'import { css } from \'lit\';\n' + styled;
+		assert.deepStrictEqual(detect(lit), [{ featureId: 'nesting', text: '.b' }]);
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { diffFeatures, renderChangeReport, summarizeChange } from '../utils/featureChanges';
+import { WebFeature } from '../webStatusApi';
+
+function feature(id: string, status: 'limited' | 'newly' | 'widely', safari?: string): WebFeature {
+	return {
+		feature_id: id,
+		name: id,
+		baseline: { status },
+		browser_implementations: {
+			chrome: { date: '2023-01-01', status: 'available', version: '105' },
+			safari: safari ? { date: '', status: 'available', version: safari } : { date: '', status: 'unavailable', version: '' }
+		},
+		spec: { links: [] }
+	};
+}
+
+suite('Feature Changes Test Suite', () => {
+	test('finds Baseline status and browser support changes', () => {
+		const previous = new Map([
+			['container-queries', feature('container-queries', 'newly', '16')],
+			['popover', feature('popover', 'limited')],
+			['dialog', feature('dialog', 'widely', '15.4')]
+		]);
+		const changes = diffFeatures(previous, [
+			feature('container-queries', 'widely', '16'),
+			feature('popover', 'limited', '17'),
+			feature('dialog', 'widely', '15.4'),
+			feature('brand-new', 'limited')
+		]);
+
+		assert.deepStrictEqual(changes.map(change => change.featureId), ['container-queries', 'popover']);
+		assert.deepStrictEqual(changes[0].baseline, { from: 'newly', to: 'widely' });
+		assert.strictEqual(changes[0].browsers.length, 0);
+		assert.strictEqual(summarizeChange(changes[0]), 'container-queries (newly → widely available)');
+		assert.strictEqual(summarizeChange(changes[1]), 'popover (Safari support)');
+		assert.match(renderChangeReport(changes, 2, 'test data'), /- \*\*Safari:\*\* unavailable → since 17/);
+	});
+});
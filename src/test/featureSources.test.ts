@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { FileFeatureSource, NpmFeatureSource, fetchFeaturePages } from '../services/featureSources';
+
+suite('Feature Sources Test Suite', () => {
+	test('follows page tokens and keeps earlier pages when one fails', async () => {
+		const feature = (id: string) => ({ feature_id: id, name: id });
+		const pages: { [token: string]: object } = {
+			'': { data: [feature('a'), feature('b')], metadata: { next_page_token: 'p2', total: 5 } },
+			p2: { data: [feature('c'), feature('d')], metadata: { next_page_token: 'p3', total: 5 } },
+			p3: { data: [feature('e')], metadata: { total: 5 } }
+		};
+		let failToken: string | undefined;
+		const server = http.createServer((request, response) => {
+			const params = new URL(request.url!, 'http://localhost').searchParams;
+			const token = params.get('page_token') || '';
+			if (token === failToken) {
+				response.writeHead(500).end();
+				return;
+			}
+			response.writeHead(200, { 'Content-Type': 'application/json', ETag: '"v1"' });
+			response.end(JSON.stringify(pages[token]));
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/features`;
+
+		try {
+			const progress: string[] = [];
+			const full = await fetchFeaturePages(url, { pageSize: 2, onPage: (fetched, total) => progress.push(`${fetched}/${total}`) });
+			assert.deepStrictEqual(full.features.map(f => f.feature_id), ['a', 'b', 'c', 'd', 'e']);
+			assert.strictEqual(full.complete, true);
+			assert.strictEqual(full.validators.etag, '"v1"');
+			assert.deepStrictEqual(progress, ['2/5', '4/5', '5/5']);
+
+			failToken = 'p3';
+			const partial = await fetchFeaturePages(url, { pageSize: 2 });
+			assert.deepStrictEqual(partial.features.map(f => f.feature_id), ['a', 'b', 'c', 'd']);
+			assert.strictEqual(partial.complete, false);
+			assert.deepStrictEqual(partial.validators, {});
+
+			failToken = '';
+			await assert.rejects(fetchFeaturePages(url, { pageSize: 2 }));
+		} finally {
+			server.close();
+		}
+	});
+
+	test('reports a walk with a repeated page token as incomplete', async () => {
+		const server = http.createServer((request, response) => {
+			const token = new URL(request.url!, 'http://localhost').searchParams.get('page_token');
+			response.writeHead(200, { 'Content-Type': 'application/json', ETag: '"v1"' });
+			response.end(JSON.stringify({ data: [{ feature_id: token || 'first', name: 'x' }], metadata: { next_page_token: 'again' } }));
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/features`;
+
+		try {
+			const pages = await fetchFeaturePages(url, { pageSize: 1 });
+			assert.deepStrictEqual(pages.features.map(f => f.feature_id), ['first', 'again']);
+			assert.strictEqual(pages.complete, false);
+			assert.deepStrictEqual(pages.validators, {});
+		} finally {
+			server.close();
+		}
+	});
+
+	test('loads a workspace file and the installed web-features package', async () => {
+		const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'baselineguard-'));
+		const packageDir = path.join(folder, 'node_modules', 'web-features');
+		fs.mkdirSync(packageDir, { recursive: true });
+		fs.writeFileSync(path.join(packageDir, 'package.json'), JSON.stringify({ version: '9.9.9' }));
+		fs.writeFileSync(path.join(packageDir, 'data.json'), JSON.stringify({
+			browsers: { chrome: { releases: [{ version: '37', date: '2014-08-26' }] }, safari: { releases: [] } },
+			features: {
+				dialog: { name: '<dialog>', spec: 'https://html.spec.whatwg.org/', status: { baseline: 'high', baseline_low_date: '≤2022-03-14', support: { chrome: '≤37' } } },
+				'old-name': { kind: 'moved', redirect_target: 'dialog' }
+			}
+		}));
+		fs.writeFileSync(path.join(folder, 'features.json'), JSON.stringify({ data: [{ feature_id: 'popover', name: 'Popover' }] }));
+
+		try {
+			const npm = await new NpmFeatureSource([folder]).load({ pageSize: 100 });
+			assert.strictEqual(npm.label, 'web-features 9.9.9 (node_modules)');
+			assert.deepStrictEqual(npm.features.map(f => f.feature_id), ['dialog']);
+			assert.deepStrictEqual(npm.features[0].baseline, { status: 'widely', low_date: '2022-03-14' });
+			assert.deepStrictEqual(npm.features[0].browser_implementations.chrome, { date: '2014-08-26', status: 'available', version: '37' });
+			assert.strictEqual(npm.features[0].browser_implementations.safari.status, 'unavailable');
+
+			const file = await new FileFeatureSource('features.json', [folder]).load({ pageSize: 100 });
+			assert.strictEqual(file.features[0].feature_id, 'popover');
+			assert.deepStrictEqual(file.features[0].spec, { links: [] });
+
+			await assert.rejects(new FileFeatureSource('missing.json', [folder]).load({ pageSize: 100 }));
+		} finally {
+			fs.rmSync(folder, { recursive: true });
+		}
+	});
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { buildTimeline, renderTimeline } from '../utils/featureTimeline';
+import { WebFeature } from '../webStatusApi';
+
+suite('Feature Timeline Test Suite', () => {
+	test('orders browser releases and Baseline milestones', () => {
+		const feature: WebFeature = {
+			feature_id: 'popover',
+			name: 'Popover',
+			baseline: { status: 'newly', low_date: '2024-04-16' },
+			browser_implementations: {
+				chrome: { date: '2023-04-04', status: 'available', version: '114' },
+				firefox: { date: '2024-04-16', status: 'available', version: '125' },
+				safari: { date: '2023-09-18', status: 'available', version: '17' },
+				safari_ios: { date: '', status: 'unavailable', version: '' }
+			},
+			spec: { links: [] }
+		};
+		const timeline = buildTimeline(feature);
+
+		assert.deepStrictEqual(timeline.events.map(event => event.label), [
+			'Chrome 114', 'Safari 17', 'Firefox 125', 'Baseline newly available', 'Baseline widely available'
+		]);
+		assert.strictEqual(timeline.projectedHighDate, '2026-10-16');
+		assert.deepStrictEqual(timeline.unavailableIn, ['Safari iOS']);
+		assert.match(renderTimeline(timeline), /\| 2026-10-16 \(projected\) \| \*\*Baseline widely available\*\* \|/);
+	});
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+import { GuardDetector, findGuard, referencesPath } from '../detectors/guardDetector';
+
+/** Returns the guard covering the first occurrence of `use`, if any. */
+function guardOf(text: string, use: string, featureId = 'unknown') {
+	const sourceFile = ts.createSourceFile('app.ts', text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+	const regions = new GuardDetector().detect(sourceFile);
+	const start = text.indexOf(use);
+	return findGuard(regions, start, start + use.length, featureId, use)?.description;
+}
+
+suite('Guard Detector Test Suite', () => {
+	test('recognises in, truthiness and typeof checks', () => {
+		assert.strictEqual(guardOf('if (\'share\' in navigator) { navigator.share(data); }', 'navigator.share(data)'), '\'share\' in navigator');
+		assert.strictEqual(guardOf('if (window.IntersectionObserver) { new IntersectionObserver(cb); }', 'new IntersectionObserver(cb)'), 'window.IntersectionObserver');
+		assert.strictEqual(guardOf('const o = typeof ResizeObserver !== \'undefined\' ? new ResizeObserver(cb) : null;', 'new ResizeObserver(cb)'), 'typeof ResizeObserver !== \'undefined\'');
+	});
+
+	test('treats early exits and optional calls as guards', () => {
+		const early = 'function f() {\n  if (!(\'share\' in navigator)) return;\n  navigator.share(data);\n}';
+		assert.strictEqual(guardOf(early, 'navigator.share(data)'), '!(\'share\' in navigator)');
+		assert.strictEqual(guardOf('navigator.share?.(data);', 'navigator.share?.(data)'), 'navigator.share');
+	});
+
+	test('only derives guards from combinations that prove support', () => {
+		const andNot = 'function f() {\n  if (!(\'share\' in navigator) && x) return;\n  navigator.share(data);\n}';
+		assert.strictEqual(guardOf(andNot, 'navigator.share(data)'), undefined);
+		const orNot = 'function f() {\n  if (!(\'share\' in navigator) || x) return;\n  navigator.share(data);\n}';
+		assert.strictEqual(guardOf(orNot, 'navigator.share(data)'), '!(\'share\' in navigator) || x');
+		const andElse = 'if (!navigator.share && x) { fallback(); } else { navigator.share(data); }';
+		assert.strictEqual(guardOf(andElse, 'navigator.share(data)'), undefined);
+		assert.strictEqual(guardOf('if (x && \'share\' in navigator) { navigator.share(data); }', 'navigator.share(data)'), 'x && \'share\' in navigator');
+	});
+
+	test('does not guard unrelated or unprotected code', () => {
+		assert.strictEqual(guardOf('if (\'share\' in navigator) {} navigator.share(data);', 'navigator.share(data)'), undefined);
+		assert.strictEqual(guardOf('if (navigator.clipboard) { navigator.share(data); }', 'navigator.share(data)'), undefined);
+		assert.strictEqual(guardOf('if (items) { items.at(-1); }', 'items.at(-1)'), undefined);
+		assert.strictEqual(guardOf('if (typeof IntersectionObserver === \'undefined\') { new IntersectionObserver(cb); }', 'new IntersectionObserver(cb)'), undefined);
+	});
+
+	test('maps CSS.supports() to feature IDs', () => {
+		const text = 'if (CSS.supports(\'container-type\', \'inline-size\')) { el.style.containerType = \'inline-size\'; }';
+		assert.ok(guardOf(text, 'containerType', 'container-queries'));
+		assert.strictEqual(guardOf(text, 'containerType', 'has'), undefined);
+	});
+
+	test('matches paths on identifier boundaries', () => {
+		assert.ok(referencesPath('window.navigator?.share(x)', 'navigator.share'));
+		assert.ok(!referencesPath('navigator.shareTarget', 'navigator.share'));
+	});
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { HtmlDialect, HtmlFeatureDetector } from '../detectors/htmlDetector';
+
+function detect(text: string, dialect: HtmlDialect = 'html') {
+	const result = new HtmlFeatureDetector().detect(text, dialect);
+	return {
+		found: result.matches.map(m => ({ featureId: m.featureId, text: text.slice(m.start, m.end) })),
+		embedded: result.embedded.map(r => ({ kind: r.kind, language: r.language, text: text.slice(r.start, r.end) }))
+	};
+}
+
+suite('HTML Detector Test Suite', () => {
+	test('detects elements but not text or comments', () => {
+		const { found } = detect('<!-- <dialog> --><p>use a &lt;dialog&gt; or <details open></p>');
+		assert.deepStrictEqual(found, [{ featureId: 'details', text: 'details' }]);
+	});
+
+	test('detects attributes and attribute values', () => {
+		const { found } = detect('<img loading=lazy fetchpriority="high" src="a.png"><div popover id="x"></div><link rel="stylesheet modulepreload" href="m.js">');
+		assert.deepStrictEqual(found, [
+			{ featureId: 'fetch-priority', text: 'fetchpriority' },
+			{ featureId: 'loading-lazy', text: 'lazy' },
+			{ featureId: 'popover', text: 'popover' },
+			{ featureId: 'modulepreload', text: 'stylesheet modulepreload' }
+		]);
+	});
+
+	test('does not scan script contents as markup', () => {
+		const { found, embedded } = detect('<script>const html = "<dialog>";</script>');
+		assert.deepStrictEqual(found, []);
+		assert.deepStrictEqual(embedded, [{ kind: 'script', language: 'javascript', text: 'const html = "<dialog>";' }]);
+	});
+
+	test('collects style blocks, style attributes and executable scripts', () => {
+		const { embedded } = detect('<style>.a:has(b) {}</style><p style="inset: 0"></p><script type="importmap">{}</script><script type="module">x()</script>');
+		assert.deepStrictEqual(embedded, [
+			{ kind: 'stylesheet', language: 'css', text: '.a:has(b) {}' },
+			{ kind: 'style-attribute', language: 'css', text: 'inset: 0' },
+			{ kind: 'script', language: 'javascript', text: 'x()' }
+		]);
+	});
+
+	test('splits Vue components into template, script and style blocks', () => {
+		const sfc = '<template>\n  <dialog><template v-if="a"><img loading="lazy"></template></dialog>\n</template>\n'
+			+ '<script setup lang="ts">const n: number = 1;</script>\n'
+			+ '<style lang="scss">.a { &:hover {} }</style>\n<style lang="stylus">.b\n  color red</style>';
+		const { found, embedded } = detect(sfc, 'vue');
+		assert.deepStrictEqual(found, [
+			{ featureId: 'dialog', text: 'dialog' },
+			{ featureId: 'loading-lazy', text: 'lazy' }
+		]);
+		assert.deepStrictEqual(embedded, [
+			{ kind: 'script', language: 'typescript', text: 'const n: number = 1;' },
+			{ kind: 'stylesheet', language: 'scss', text: '.a { &:hover {} }' }
+		]);
+	});
+
+	test('keeps <template> and skips expression styles in Svelte', () => {
+		const { found, embedded } = detect('<template></template><p style={styles}></p>', 'svelte');
+		assert.deepStrictEqual(found, [{ featureId: 'template', text: 'template' }]);
+		assert.deepStrictEqual(embedded, []);
+	});
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { WebFeature } from '../webStatusApi';
+import { computeImpact, parseAudienceTable } from '../utils/impact';
+
+function feature(support: { [browser: string]: string | undefined }, daily?: number): WebFeature {
+	const browser_implementations: WebFeature['browser_implementations'] = {};
+	for (const [browser, version] of Object.entries(support)) {
+		browser_implementations[browser] = version
+			? { date: '', status: 'available', version }
+			: { date: '', status: 'unavailable', version: '' };
+	}
+	return {
+		feature_id: 'example',
+		name: 'Example',
+		browser_implementations,
+		spec: { links: [] },
+		usage: daily === undefined ? undefined : { chrome: { daily } }
+	};
+}
+
+suite('Impact Test Suite', () => {
+	test('reads WebStatus keys, browserslist names and version ranges', () => {
+		const audience = parseAudienceTable({
+			chrome: 60,
+			ios_saf: { '17.4': 20, '15.6-15.8': 10 },
+			samsung: { '24': 10 }
+		});
+
+		assert.deepStrictEqual(audience.shares, [
+			{ browser: 'chrome', share: 60 },
+			{ browser: 'safari_ios', version: '17.4', share: 20 },
+			{ browser: 'safari_ios', version: '15.6', share: 10 }
+		]);
+		assert.deepStrictEqual(audience.untracked, ['samsung']);
+		assert.throws(() => parseAudienceTable([] as any));
+	});
+
+	test('scores the audience share lacking the feature, weighted by web usage', () => {
+		const audience = parseAudienceTable({ chrome: 50, ios_saf: { '17.4': 30, '15.6': 20 } });
+
+		// Safari iOS 15.6 is too old: 20% of the audience
+		const rare = computeImpact(feature({ chrome: '100', safari_ios: '16.4' }), audience);
+		assert.strictEqual(rare.basis, 'audience');
+		assert.strictEqual(rare.lacking, 0.2);
+		assert.strictEqual(rare.score, 10);
+
+		const common = computeImpact(feature({ chrome: '100', safari_ios: '16.4' }, 1), audience);
+		assert.strictEqual(common.score, 20);
+
+		assert.strictEqual(computeImpact(feature({ chrome: '100', safari_ios: '15.6' }), audience).score, 0);
+	});
+
+	test('counts core browsers equally without an audience table', () => {
+		const impact = computeImpact(feature({
+			chrome: '100', chrome_android: '100', edge: '100', firefox: '100', firefox_android: '100', safari: undefined, safari_ios: undefined
+		}));
+		assert.strictEqual(impact.basis, 'browsers');
+		assert.strictEqual(impact.lacking, 2 / 7);
+		assert.strictEqual(impact.score, 14);
+	});
+
+	test('counts core browsers missing from API data as lacking', () => {
+		// WebStatus API results only list the browsers that implement the feature
+		const impact = computeImpact(feature({ chrome: '121', chrome_android: '121', edge: '121' }));
+		assert.strictEqual(impact.lacking, 4 / 7);
+		assert.strictEqual(impact.score, 29);
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+import { JsxFeatureDetector, toCssPropertyName } from '../detectors/jsxDetector';
+
+function detect(text: string) {
+	const sourceFile = ts.createSourceFile('App.tsx', text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+	return new JsxFeatureDetector().detect(sourceFile).map(m => ({
+		featureId: m.featureId,
+		text: text.slice(m.start, m.end)
+	}));
+}
+
+suite('JSX Detector Test Suite', () => {
+	test('detects intrinsic elements and attributes', () => {
+		const found = detect('const a = <dialog open><img loading="lazy" fetchPriority={"high"} /><div popover /></dialog>;');
+		assert.deepStrictEqual(found, [
+			{ featureId: 'dialog', text: 'dialog' },
+			{ featureId: 'fetch-priority', text: 'fetchPriority' },
+			{ featureId: 'loading-lazy', text: 'lazy' },
+			{ featureId: 'popover', text: 'popover' }
+		]);
+	});
+
+	test('ignores strings and components', () => {
+		const found = detect('const html = "<dialog>"; const a = <Dialog loading="lazy" />;');
+		assert.deepStrictEqual(found, []);
+	});
+
+	test('reads object literal spread props', () => {
+		const found = detect('const a = <img {...props} {...{ loading: \'lazy\' }} />;');
+		assert.deepStrictEqual(found, [{ featureId: 'loading-lazy', text: 'lazy' }]);
+	});
+
+	test('checks style objects as CSS', () => {
+		const found = detect('const a = <div style={{ containerType: "inline-size", height: "100dvh", color: "red" }} />;');
+		assert.deepStrictEqual(found, [
+			{ featureId: 'container-queries', text: 'containerType' },
+			{ featureId: 'viewport-unit-variants', text: '100dvh' }
+		]);
+	});
+
+	test('converts style keys to CSS property names', () => {
+		assert.strictEqual(toCssPropertyName('containerType'), 'container-type');
+		assert.strictEqual(toCssPropertyName('WebkitLineClamp'), '-webkit-line-clamp');
+		assert.strictEqual(toCssPropertyName('--accent'), '--accent');
+	});
+});
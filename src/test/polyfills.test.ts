@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { featuresForModule, featuresForPolyfillUrl, findPolyfillReferences } from '../utils/polyfills';
+
+suite('Polyfills Test Suite', () => {
+	test('maps polyfill packages and their sub-paths', () => {
+		assert.deepStrictEqual(featuresForModule('resize-observer-polyfill'), ['resize-observer']);
+		assert.deepStrictEqual(featuresForModule('abortcontroller-polyfill/dist/polyfill-patch-fetch'), ['aborting']);
+		assert.deepStrictEqual(featuresForModule('lodash'), []);
+	});
+
+	test('maps core-js entry points to built-ins', () => {
+		assert.deepStrictEqual(featuresForModule('core-js/actual/array/at'), ['array-at']);
+		assert.deepStrictEqual(featuresForModule('core-js/stable/array/find-last'), ['array-findlast']);
+		assert.deepStrictEqual(featuresForModule('core-js/modules/es.object.has-own'), ['object-hasown']);
+		assert.deepStrictEqual(featuresForModule('core-js/actual/structured-clone'), ['structured-clone']);
+
+		const stable = featuresForModule('core-js/stable');
+		assert.ok(stable.includes('promise-withresolvers'));
+		assert.ok(stable.includes('structured-clone'));
+		assert.ok(!stable.includes('resize-observer'));
+		// Syntax cannot be polyfilled
+		assert.ok(!stable.includes('object-object'));
+		assert.ok(!featuresForModule('core-js/es').includes('structured-clone'));
+	});
+
+	test('reads polyfill service feature lists', () => {
+		const url = 'https://cdnjs.cloudflare.com/polyfill/v3/polyfill.min.js?features=ResizeObserver%2CArray.prototype.at|always&amp;flags=gated';
+		assert.deepStrictEqual(featuresForPolyfillUrl(url), ['resize-observer', 'array-at']);
+	});
+
+	test('finds imports, requires and script tags', () => {
+		const { modules, urls } = findPolyfillReferences([
+			`import 'core-js/stable';`,
+			`import { polyfill } from 'smoothscroll-polyfill';`,
+			`require('whatwg-fetch');`,
+			`<script src="https://polyfill.io/v3/polyfill.min.js?features=fetch"></script>`
+		].join('\n'));
+
+		assert.deepStrictEqual(modules, ['core-js/stable', 'smoothscroll-polyfill', 'whatwg-fetch']);
+		assert.deepStrictEqual(urls, ['https://polyfill.io/v3/polyfill.min.js?features=fetch']);
+	});
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import {
+	classifyCompilerOptions,
+	classifyFromPackageJson,
+	classifySource,
+	isAvailableInWorkers
+} from '../services/runtimeContext';
+
+suite('Runtime Context Test Suite', () => {
+	test('classifies scripts by imports and globals', () => {
+		assert.strictEqual(classifySource(`import { readFile } from 'node:fs/promises';`)?.runtime, 'node');
+		assert.strictEqual(classifySource(`const esbuild = require('esbuild');\nconst watch = process.argv.includes('--watch');`)?.runtime, 'node');
+		assert.strictEqual(classifySource(`self.addEventListener('install', event => event.waitUntil(cache()));`)?.runtime, 'worker');
+		assert.strictEqual(classifySource(`/// <reference lib="webworker" />\npostMessage(1);`)?.runtime, 'worker');
+		// Packages with browser shims do not decide it
+		assert.strictEqual(classifySource(`import { EventEmitter } from 'events';\nfetch('/api');`), undefined);
+	});
+
+	test('classifies files named in package.json', () => {
+		const manifest = { bin: { cli: './bin/cli.js' }, browser: { './lib/server.js': './lib/client.js' } };
+
+		assert.strictEqual(classifyFromPackageJson(manifest, 'bin/cli.js')?.runtime, 'node');
+		assert.strictEqual(classifyFromPackageJson(manifest, 'lib/server.js')?.runtime, 'node');
+		assert.strictEqual(classifyFromPackageJson(manifest, 'lib/client.js')?.runtime, 'browser');
+		assert.strictEqual(classifyFromPackageJson(manifest, 'lib/other.js'), undefined);
+	});
+
+	test('classifies projects by compiler lib and types', () => {
+		assert.strictEqual(classifyCompilerOptions(['lib.es2022.d.ts'], ['node'])?.runtime, 'node');
+		assert.strictEqual(classifyCompilerOptions(['lib.es2022.d.ts', 'lib.dom.d.ts'], undefined)?.runtime, 'browser');
+		assert.strictEqual(classifyCompilerOptions(['lib.es2022.d.ts', 'lib.dom.d.ts'], ['node'])?.runtime, 'universal');
+		assert.strictEqual(classifyCompilerOptions(['lib.es2022.d.ts', 'lib.webworker.d.ts'], undefined)?.runtime, 'worker');
+		assert.strictEqual(classifyCompilerOptions(undefined, undefined), undefined);
+	});
+
+	test('knows which features exist in workers', () => {
+		assert.strictEqual(isAvailableInWorkers('broadcast-channel'), true);
+		assert.strictEqual(isAvailableInWorkers('web-locks'), true);
+		assert.strictEqual(isAvailableInWorkers('array-at'), true);
+		assert.strictEqual(isAvailableInWorkers('class-syntax'), true);
+		assert.strictEqual(isAvailableInWorkers('dialog'), false);
+		assert.strictEqual(isAvailableInWorkers('share'), false);
+	});
+});
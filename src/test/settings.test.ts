@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { readSettings } from '../services/settings';
+
+function section(values: { [key: string]: unknown }) {
+	return { get: (key: string, fallback?: unknown) => key in values ? values[key] : fallback } as any;
+}
+
+suite('Settings Test Suite', () => {
+	test('defaults to the status buckets', () => {
+		assert.deepStrictEqual(readSettings(section({})), {
+			enabled: true,
+			minimumConfidence: 0.6,
+			showHints: true,
+			severity: { limited: 'warning', newly: 'information', widely: 'hint', unknown: 'information' },
+			analysisMode: 'syntactic',
+			cssInJsTags: [],
+			transpiledSyntax: 'hint',
+			baselineTarget: ''
+		});
+	});
+
+	test('applies configured levels and ignores invalid ones', () => {
+		const settings = readSettings(section({
+			enabled: false,
+			minimumConfidence: 0.8,
+			showHints: false,
+			severity: { limited: 'error', widely: 'off', newly: 'loud' }
+		}));
+
+		assert.strictEqual(settings.enabled, false);
+		assert.strictEqual(settings.minimumConfidence, 0.8);
+		assert.strictEqual(settings.showHints, false);
+		assert.deepStrictEqual(settings.severity, { limited: 'error', newly: 'information', widely: 'off', unknown: 'information' });
+	});
+
+	test('clamps the confidence threshold', () => {
+		assert.strictEqual(readSettings(section({ minimumConfidence: 2 })).minimumConfidence, 1);
+		assert.strictEqual(readSettings(section({ minimumConfidence: 'high' })).minimumConfidence, 0.6);
+	});
+});
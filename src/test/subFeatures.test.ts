@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { CssFeatureDetector } from '../detectors/cssDetector';
+import { describeCaveat, describeCaveats, findSubFeature, withSubFeature } from '../utils/subFeatures';
+import { WebFeature, WebStatusApiClient } from '../webStatusApi';
+
+suite('Sub-Features Test Suite', () => {
+	const feature: WebFeature = {
+		feature_id: 'grid',
+		name: 'Grid',
+		baseline: { status: 'widely', low_date: '2017-10-17' },
+		browser_implementations: {
+			chrome: { date: '', status: 'available', version: '57' },
+			safari: { date: '', status: 'available', version: '10.1' }
+		},
+		spec: { links: [] },
+		sub_features: {
+			'css.types.flex': {
+				baseline: { status: 'limited' },
+				browser_implementations: { safari: { date: '', status: 'unavailable', version: '' } }
+			}
+		}
+	};
+
+	test('resolves the most specific sub-feature the data has', () => {
+		assert.strictEqual(findSubFeature(feature, ['css.properties.display.grid', '*.flex']), 'css.types.flex');
+		assert.strictEqual(findSubFeature(feature, ['css.properties.display.grid']), undefined);
+		assert.strictEqual(findSubFeature(feature, undefined), undefined);
+
+		const resolved = withSubFeature(feature, 'css.types.flex');
+		assert.strictEqual(resolved.baseline?.status, 'limited');
+		assert.strictEqual(resolved.browser_implementations.safari.status, 'unavailable');
+		assert.strictEqual(resolved.browser_implementations.chrome.version, '57');
+	});
+
+	test('describes prefixed, flagged and partial support', () => {
+		assert.strictEqual(describeCaveat({ version: '9', prefix: '-webkit-' }), '-webkit- prefix from 9');
+		assert.strictEqual(describeCaveat({ version: '15.4', partial: true, flags: ['dom.dialog'] }), 'partial, behind flag dom.dialog from 15.4');
+	});
+
+	test('reports the Safari prefix of backdrop-filter from the bundled data', () => {
+		const [match] = new CssFeatureDetector().detect('a { backdrop-filter: blur(2px); }');
+		const umbrella = WebStatusApiClient.getInstance().getFeature(match.featureId)!;
+		const compatKey = findSubFeature(umbrella, match.compatKeys);
+
+		assert.strictEqual(compatKey, 'css.properties.backdrop-filter');
+		assert.ok(describeCaveats(withSubFeature(umbrella, compatKey!)).includes('Safari: -webkit- prefix from 9'));
+	});
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { formatSuppressionComment, parseSuppressions } from '../utils/suppressions';
+
+suite('Suppressions Test Suite', () => {
+	test('disables the next line for the listed features', () => {
+		const suppressions = parseSuppressions('a\n// baseline-guard-disable-next-line share, popover\nnavigator.share();\nnavigator.share();');
+		assert.ok(suppressions.isSuppressed('share', 2));
+		assert.ok(suppressions.isSuppressed('popover', 2));
+		assert.ok(!suppressions.isSuppressed('dialog', 2));
+		assert.ok(!suppressions.isSuppressed('share', 3));
+	});
+
+	test('disables blocks until a matching enable', () => {
+		const text = [
+			'/* baseline-guard-disable container-queries */',
+			'.a { container-type: size; }',
+			'/* baseline-guard-enable */',
+			'.b { container-type: size; }',
+			'<!-- baseline-guard-disable -->',
+			'<dialog></dialog>'
+		].join('\n');
+		const suppressions = parseSuppressions(text);
+		assert.ok(suppressions.isSuppressed('container-queries', 1));
+		assert.ok(!suppressions.isSuppressed('has', 1));
+		assert.ok(!suppressions.isSuppressed('container-queries', 3));
+		assert.ok(suppressions.isSuppressed('dialog', 5));
+	});
+
+	test('enables with feature IDs only close disables listing them', () => {
+		const text = [
+			'// baseline-guard-disable',
+			'// baseline-guard-disable share',
+			'navigator.share();',
+			'// baseline-guard-enable share',
+			'navigator.share();',
+			'// baseline-guard-enable',
+			'navigator.share();'
+		].join('\n');
+		const suppressions = parseSuppressions(text);
+		assert.ok(suppressions.isSuppressed('share', 2));
+		assert.ok(suppressions.isSuppressed('share', 4));
+		assert.ok(suppressions.isSuppressed('dialog', 4));
+		assert.ok(!suppressions.isSuppressed('share', 6));
+	});
+
+	test('formats comments for each syntax', () => {
+		assert.strictEqual(formatSuppressionComment('disable-next-line', 'share', 'line'), '// baseline-guard-disable-next-line share');
+		assert.strictEqual(formatSuppressionComment('disable', 'has', 'block'), '/* baseline-guard-disable has */');
+		assert.strictEqual(formatSuppressionComment('disable-next-line', 'dialog', 'jsx'), '{/* baseline-guard-disable-next-line dialog */}');
+		assert.strictEqual(formatSuppressionComment('disable', 'dialog', 'html'), '<!-- baseline-guard-disable dialog -->');
+	});
+
+	test('round-trips formatted comments', () => {
+		for (const style of ['line', 'block', 'jsx', 'html'] as const) {
+			const text = `${formatSuppressionComment('disable-next-line', 'share', style)}\nnavigator.share();`;
+			assert.ok(parseSuppressions(text).isSuppressed('share', 1), style);
+		}
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+import { SyntaxFeatureDetector } from '../detectors/syntaxDetector';
+
+function detect(text: string, fileName = 'app.js') {
+	const kind = fileName.endsWith('.ts') ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+	const sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, kind);
+	return new SyntaxFeatureDetector().detect(sourceFile).map(m => ({
+		featureId: m.featureId,
+		text: text.slice(m.start, m.end)
+	}));
+}
+
+suite('Syntax Detector Test Suite', () => {
+	test('points at operators', () => {
+		assert.deepStrictEqual(detect('a?.b ?? c; x ??= 1; y ||= 2; z &&= 3; const t = a ? b : c;'), [
+			{ featureId: 'nullish-coalescing', text: '??' },
+			{ featureId: 'object-object', text: '?.' },
+			{ featureId: 'nullish-coalescing', text: '??=' },
+			{ featureId: 'logical-assignments', text: '||=' },
+			{ featureId: 'logical-assignments', text: '&&=' }
+		]);
+	});
+
+	test('recognises class fields, private members and static blocks', () => {
+		const found = detect('class A { x = 1; static y = 2; #z; #m() {} static { init(); } has(o) { return #z in o; } }');
+		assert.deepStrictEqual(found.map(m => m.text), ['x', 'y', '#z', '#m', 'static', '#z']);
+		assert.ok(found.every(m => m.featureId === 'class-syntax'));
+		assert.deepStrictEqual(detect('class A { x: number; declare y: string; }', 'app.ts'), []);
+	});
+
+	test('only reports await at module scope', () => {
+		assert.deepStrictEqual(detect('await load();\nfor await (const x of xs) {}'), [
+			{ featureId: 'top-level-await', text: 'await' },
+			{ featureId: 'top-level-await', text: 'await' }
+		]);
+		assert.deepStrictEqual(detect('async function f() { await load(); }\nconst g = async () => await load();'), []);
+	});
+
+	test('recognises literals and module syntax', () => {
+		const found = detect('const n = 1_000_000; const r = /a/dv;\n'
+			+ 'import data from \'./data.json\' with { type: \'json\' };\n'
+			+ 'const url = import.meta.url; const m = await import(\'./m.js\');');
+		assert.deepStrictEqual(found.map(m => m.featureId), [
+			'numeric-separators', 'regexp', 'regexp',
+			'js-modules', 'json-modules',
+			'js-modules', 'top-level-await', 'js-modules'
+		]);
+	});
+});
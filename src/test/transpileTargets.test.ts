@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { findBuildTarget, hasPresetEnv, lowersSyntax, parseEsVersion } from '../services/transpileTargets';
+
+suite('Transpile Targets Test Suite', () => {
+	test('parses ECMAScript target names', () => {
+		assert.strictEqual(parseEsVersion('ES2019'), 2019);
+		assert.strictEqual(parseEsVersion('es2022'), 2022);
+		assert.strictEqual(parseEsVersion('ES5'), 2009);
+		assert.strictEqual(parseEsVersion('es6'), 2015);
+		assert.strictEqual(parseEsVersion('ESNext'), Infinity);
+	});
+
+	test('reads the lowest ES target from a bundler config', () => {
+		assert.strictEqual(findBuildTarget(`export default defineConfig({ build: { target: 'es2020' } });`), 2020);
+		assert.strictEqual(findBuildTarget(`esbuild.build({ target: ['es2021', 'chrome87', 'es2019'] });`), 2019);
+		assert.strictEqual(findBuildTarget(`esbuild.build({ target: ['chrome87', 'safari14'] });`), undefined);
+		assert.strictEqual(findBuildTarget(`esbuild.build({ minify: true });`), undefined);
+	});
+
+	test('recognises preset-env in a Babel config', () => {
+		assert.strictEqual(hasPresetEnv({ presets: ['@babel/preset-env'] }), true);
+		assert.strictEqual(hasPresetEnv({ presets: [['@babel/env', { targets: 'defaults' }]] }), true);
+		assert.strictEqual(hasPresetEnv({ presets: ['@babel/preset-react'] }), false);
+		assert.strictEqual(hasPresetEnv(undefined), false);
+	});
+
+	test('lowers syntax newer than the target', () => {
+		assert.strictEqual(lowersSyntax({ esVersion: 2019, source: 'tsconfig.json' }, 2020), true);
+		assert.strictEqual(lowersSyntax({ esVersion: 2022, source: 'tsconfig.json' }, 2020), false);
+		assert.strictEqual(lowersSyntax({ source: '.babelrc' }, 2022), true);
+	});
+});
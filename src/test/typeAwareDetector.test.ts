@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+import { TypeAwareDetector, WORKER_LIBS } from '../detectors/typeAwareDetector';
+
+// Shared, so the lib files are only parsed once
+const detector = new TypeAwareDetector();
+
+function detect(text: string, libs?: string[]) {
+	return detector.detect('/project/app.ts', text, ts.ScriptKind.TS, libs).map(m => ({
+		featureId: m.featureId,
+		text: text.slice(m.start, m.end)
+	}));
+}
+
+suite('Type-Aware Detector Test Suite', () => {
+	test('follows aliased receivers and qualified access', () => {
+		assert.deepStrictEqual(detect('const nav = navigator;\nnav.share(data);'), [{ featureId: 'share', text: 'nav.share' }]);
+		assert.deepStrictEqual(detect('window.navigator.share(data);'), [{ featureId: 'share', text: 'window.navigator.share' }]);
+		assert.deepStrictEqual(detect('new globalThis.IntersectionObserver(callback);'), [
+			{ featureId: 'intersection-observer', text: 'globalThis.IntersectionObserver' }
+		]);
+	});
+
+	test('resolves destructured members', () => {
+		assert.deepStrictEqual(detect('const { clipboard } = navigator;\nclipboard.writeText(text);'), [
+			{ featureId: 'async-clipboard', text: 'clipboard' },
+			{ featureId: 'async-clipboard', text: 'clipboard.writeText' }
+		]);
+	});
+
+	test('resolves built-in methods by the type of their receiver', () => {
+		assert.deepStrictEqual(detect('const values: number[] = [1, 2];\nvalues.findLast(v => v > 1);'), [
+			{ featureId: 'array-findlast', text: 'values.findLast' }
+		]);
+		assert.deepStrictEqual(detect('new Uint8Array(4).findLast(v => v > 1);'), [
+			{ featureId: 'array-findlast', text: 'new Uint8Array(4).findLast' }
+		]);
+		assert.deepStrictEqual(detect('Object.hasOwn(options, "signal");'), [{ featureId: 'object-hasown', text: 'Object.hasOwn' }]);
+	});
+
+	test('ignores locals that shadow an API and members of other types', () => {
+		assert.deepStrictEqual(detect('const navigator = { share() {} };\nnavigator.share();'), []);
+		assert.deepStrictEqual(detect('function send(share: (data: unknown) => void) { share(1); }'), []);
+		assert.deepStrictEqual(detect('function last(list: { findLast(): void }) { list.findLast(); }'), []);
+		assert.deepStrictEqual(detect('type Share = Navigator["share"];'), []);
+	});
+
+	test('checks workers against the worker lib', () => {
+		assert.deepStrictEqual(detect('const copy = structuredClone(value);', WORKER_LIBS), [
+			{ featureId: 'structured-clone', text: 'structuredClone' }
+		]);
+	});
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LoadedFeatures } from '../services/featureSources';
+import { PersistedFeatureCache, WebStatusApiClient } from '../webStatusApi';
+
+suite('WebStatus API Client Test Suite', () => {
+	test('serves the bundled snapshot before any fetch', () => {
+		const client = WebStatusApiClient.getInstance();
+
+		assert.strictEqual(client.getFeature('dialog')?.baseline?.status, 'widely');
+		assert.ok(client.getCacheInfo().size > 1000);
+		assert.strictEqual(client.getDatasetInfo().source, 'snapshot');
+		assert.match(client.describeDataset(), /^web-features \d+\.\d+\.\d+ snapshot \(\d{4}-\d{2}-\d{2}\)$/);
+	});
+
+	test('reloads the snapshot when the cache is cleared', () => {
+		const client = WebStatusApiClient.getInstance();
+		client.forceRefresh();
+
+		assert.ok(client.getFeature('array-at'));
+	});
+
+	test('serves the persisted cache and deletes it on request', () => {
+		const client = WebStatusApiClient.getInstance();
+		const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'baselineguard-'));
+		const persisted: PersistedFeatureCache = {
+			fetchedAt: Date.now(),
+			etag: '"abc"',
+			features: [{ ...client.getFeature('dialog')!, name: 'Dialog (cached)' }]
+		};
+		fs.writeFileSync(path.join(storage, 'webstatus-features.json'), JSON.stringify(persisted));
+
+		client.setStorageUri({ fsPath: storage } as vscode.Uri);
+		assert.strictEqual(client.getFeature('dialog')?.name, 'Dialog (cached)');
+		assert.strictEqual(client.getDatasetInfo().source, 'live');
+		assert.strictEqual(client.getPersistedCacheInfo()?.etag, '"abc"');
+
+		client.clearPersistedCache();
+		assert.strictEqual(client.getPersistedCacheInfo(), undefined);
+		assert.strictEqual(client.getFeature('dialog')?.name, '<dialog>');
+		fs.rmSync(storage, { recursive: true });
+	});
+
+	test('keeps the data stale after a partial page walk', () => {
+		const client = WebStatusApiClient.getInstance();
+		const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'baselineguard-'));
+		client.setStorageUri({ fsPath: storage } as vscode.Uri);
+		client.forceRefresh();
+		const loaded: LoadedFeatures = {
+			source: 'api',
+			label: 'WebStatus API',
+			features: [{ ...client.getFeature('dialog')!, name: 'Dialog (partial)' }],
+			complete: false,
+			notModified: false,
+			validators: {},
+			error: new Error('HTTP 500')
+		};
+
+		client['applyLoadedFeatures'](loaded, Date.now());
+		assert.strictEqual(client.getFeature('dialog')?.name, 'Dialog (partial)');
+		assert.strictEqual(client.getCacheInfo().isStale, true);
+		assert.strictEqual(client.getPersistedCacheInfo()?.fetchedAt, 0);
+
+		const now = Date.now();
+		client['applyLoadedFeatures']({ ...loaded, complete: true, error: undefined }, now);
+		assert.strictEqual(client.getCacheInfo().isStale, false);
+		assert.strictEqual(client.getPersistedCacheInfo()?.fetchedAt, now);
+
+		client.clearPersistedCache();
+		fs.rmSync(storage, { recursive: true });
+	});
+});
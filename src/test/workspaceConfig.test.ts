@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import * as ts from 'typescript';
+import { mergeConfigFiles, toPatternInfo } from '../services/workspaceConfig';
+
+suite('Workspace Config Test Suite', () => {
+	test('inner files override outer settings and rules', () => {
+		const merged = mergeConfigFiles([
+			{ rules: { share: 'off', has: 'error' }, minimumConfidence: 0.8, targets: 'defaults' },
+			{ rules: { share: 'warning' }, baselineTarget: '2023' }
+		], 'javascript');
+
+		assert.strictEqual(merged.rules.get('share'), 'warning');
+		assert.strictEqual(merged.rules.get('has'), 'error');
+		assert.strictEqual(merged.minimumConfidence, 0.8);
+		assert.deepStrictEqual(merged.targets, ['defaults']);
+		assert.strictEqual(merged.baselineTarget, '2023');
+		assert.strictEqual(merged.enabled, true);
+	});
+
+	test('applies only the section for the document language', () => {
+		const configs = [{
+			rules: { nesting: 'error' as const },
+			languages: { scss: { rules: { nesting: 'off' as const } }, markdown: { enabled: false } }
+		}];
+
+		assert.strictEqual(mergeConfigFiles(configs, 'scss').rules.get('nesting'), 'off');
+		assert.strictEqual(mergeConfigFiles(configs, 'css').rules.get('nesting'), 'error');
+		assert.strictEqual(mergeConfigFiles(configs, 'markdown').enabled, false);
+	});
+
+	test('compiles custom patterns', () => {
+		const pattern = toPatternInfo({
+			featureId: 'screen-wake-lock',
+			pattern: 'navigator\\.wakeLock\\.request\\s*\\(',
+			language: ['javascript'],
+			astPattern: { nodeType: 'CallExpression', objectName: 'wakeLock', methodName: 'request' }
+		});
+
+		assert.strictEqual(pattern.pattern.flags, 'g');
+		assert.ok(pattern.pattern.test('navigator.wakeLock.request(\'screen\')'));
+		assert.strictEqual(pattern.astPattern?.nodeType, ts.SyntaxKind.CallExpression);
+		assert.strictEqual(pattern.confidence, 0.9);
+	});
+});
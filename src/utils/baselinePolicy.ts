@@ -0,0 +1,101 @@
+// src/utils/baselinePolicy.ts
+import { WebFeature } from '../webStatusApi';
+
+// A feature becomes widely available 30 months after it is newly available
+export const WIDELY_AVAILABLE_MONTHS = 30;
+
+export type BaselinePolicy =
+  | { kind: 'year'; year: number; label: string }
+  | { kind: 'widely'; asOf?: Date; label: string };
+
+export interface PolicyVerdict {
+  inPolicy: boolean;
+  reason: string;
+}
+
+/**
+ * Parses the `baselineGuard.baselineTarget` setting:
+ * - `"2022"`             → Baseline 2022 or earlier
+ * - `"widely"`           → widely available today
+ * - `"widely:2024-06-30"` → widely available as of the given date
+ */
+export function parseBaselineTarget(value: string | undefined): BaselinePolicy | undefined {
+  const target = (value || '').trim().toLowerCase();
+  if (!target) {
+    return undefined;
+  }
+
+  if (/^\d{4}$/.test(target)) {
+    const year = parseInt(target, 10);
+    return { kind: 'year', year, label: `Baseline ${year}` };
+  }
+
+  const widely = /^widely(?::(\d{4}-\d{2}-\d{2}))?$/.exec(target);
+  if (widely) {
+    if (!widely[1]) {
+      return { kind: 'widely', label: 'Widely available' };
+    }
+    const asOf = new Date(widely[1]);
+    if (!isNaN(asOf.getTime())) {
+      return { kind: 'widely', asOf, label: `Widely available as of ${widely[1]}` };
+    }
+  }
+
+  return undefined;
+}
+
+export function evaluatePolicy(feature: WebFeature, policy: BaselinePolicy): PolicyVerdict {
+  const baseline = feature.baseline;
+  if (!baseline || baseline.status === 'limited' || !baseline.low_date) {
+    return { inPolicy: false, reason: 'Not Baseline yet' };
+  }
+
+  const lowDate = new Date(baseline.low_date);
+
+  if (policy.kind === 'year') {
+    const year = lowDate.getUTCFullYear();
+    return year <= policy.year
+      ? { inPolicy: true, reason: `Baseline ${year}` }
+      : { inPolicy: false, reason: `Baseline ${year} is newer than ${policy.label}` };
+  }
+
+  const highDate = getWidelyAvailableDate(feature);
+  if (!policy.asOf) {
+    return baseline.status === 'widely'
+      ? { inPolicy: true, reason: `Widely available since ${formatDate(highDate)}` }
+      : { inPolicy: false, reason: `Only newly available (widely available ${formatDate(highDate)})` };
+  }
+
+  return highDate.getTime() <= policy.asOf.getTime()
+    ? { inPolicy: true, reason: `Widely available since ${formatDate(highDate)}` }
+    : { inPolicy: false, reason: `Not widely available until ${formatDate(highDate)}` };
+}
+
+/**
+ * The high date reported by the dataset, or the projected one
+ * (low date + 30 months) when it has not been reached yet.
+ */
+export function getWidelyAvailableDate(feature: WebFeature): Date {
+  if (feature.baseline?.high_date) {
+    return new Date(feature.baseline.high_date);
+  }
+  const lowDate = feature.baseline?.low_date || new Date().toISOString().slice(0, 10);
+  return new Date(projectWidelyAvailable(lowDate));
+}
+
+/**
+ * The date `WIDELY_AVAILABLE_MONTHS` after an ISO `lowDate`, e.g.
+ * `2023-03-27` → `2025-09-27`. Days past the end of the target month clamp
+ * to its last day.
+ */
+export function projectWidelyAvailable(lowDate: string): string {
+  const [year, month, day] = lowDate.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + WIDELY_AVAILABLE_MONTHS, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
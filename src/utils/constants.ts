@@ -2,10 +2,12 @@ export const WEBSTATUS_API_URL = 'https://api.webstatus.dev/v1/features';
 export const CACHE_DURATION = 3600000; // 1 hour in milliseconds
 export const EXTENSION_NAME = 'BaselineGuard';
 
+// Default severity per Baseline status; see the baselineGuard.severity setting
 export const SEVERITY_MAPPING = {
-  limited: 'Warning',
-  newly: 'Information',
-  widely: 'Hint'
+  limited: 'warning',
+  newly: 'information',
+  widely: 'hint',
+  unknown: 'information'
 } as const;
 
 export const STATUS_ICONS = {
@@ -25,6 +27,10 @@ export const BROWSERS = {
   safari_ios: 'Safari iOS'
 } as const;
 
+export function getBrowserName(browser: string): string {
+  return BROWSERS[browser as keyof typeof BROWSERS] || browser;
+}
+
 export const SUPPORTED_LANGUAGES = [
   'javascript',
   'typescript',
@@ -33,5 +39,7 @@ export const SUPPORTED_LANGUAGES = [
   'less',
   'html',
   'javascriptreact',
-  'typescriptreact'
+  'typescriptreact',
+  'vue',
+  'svelte'
 ] as const;
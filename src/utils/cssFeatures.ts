@@ -0,0 +1,159 @@
+// src/utils/cssFeatures.ts
+import { withGeneratedCss } from './generatedRules';
+
+/**
+ * Declarative CSS feature table used by the parser-based stylesheet pass.
+ * Every key is lower-case; values are web-features IDs.
+ */
+export interface CssFeatureTable {
+  atRules: { [name: string]: string };
+  mediaFeatures: { [name: string]: string };
+  properties: { [property: string]: string };
+  propertyValues: { [property: string]: { [keyword: string]: string } };
+  functions: { [name: string]: string };
+  units: { [unit: string]: string };
+  pseudoClasses: { [name: string]: string };
+  pseudoElements: { [name: string]: string };
+}
+
+// Hand-written entries; they win over the generated table
+const CURATED_CSS_FEATURES: CssFeatureTable = {
+  atRules: {
+    'container': 'container-queries',
+    'layer': 'cascade-layers',
+    'property': 'registered-custom-properties',
+    'scope': 'scope',
+    'starting-style': 'starting-style',
+    'counter-style': 'counter-style',
+    'font-palette-values': 'font-palette',
+    'view-transition': 'cross-document-view-transitions',
+    'position-try': 'anchor-positioning'
+  },
+
+  mediaFeatures: {
+    'prefers-color-scheme': 'prefers-color-scheme',
+    'prefers-reduced-motion': 'prefers-reduced-motion'
+  },
+
+  properties: {
+    'aspect-ratio': 'aspect-ratio',
+    'content-visibility': 'content-visibility',
+    'backdrop-filter': 'backdrop-filter',
+    'container': 'container-queries',
+    'container-type': 'container-queries',
+    'container-name': 'container-queries',
+    'accent-color': 'accent-color',
+    'scroll-snap-type': 'scroll-snap',
+    'scroll-snap-align': 'scroll-snap',
+    'overscroll-behavior': 'overscroll-behavior',
+    'anchor-name': 'anchor-positioning',
+    'position-anchor': 'anchor-positioning',
+    'view-transition-name': 'view-transitions',
+    'field-sizing': 'field-sizing',
+    'interpolate-size': 'interpolate-size',
+    'scrollbar-gutter': 'scrollbar-gutter',
+    'scrollbar-color': 'scrollbar-color',
+    'translate': 'individual-transforms',
+    'rotate': 'individual-transforms',
+    'scale': 'individual-transforms',
+    'grid-template-columns': 'grid',
+    'grid-template-rows': 'grid',
+    'grid-template-areas': 'grid',
+    'flex-direction': 'flexbox',
+    'flex-wrap': 'flexbox'
+  },
+
+  propertyValues: {
+    'display': {
+      'grid': 'grid',
+      'inline-grid': 'grid',
+      'flex': 'flexbox',
+      'inline-flex': 'flexbox',
+      'contents': 'display-contents'
+    },
+    'grid-template-columns': { 'subgrid': 'subgrid' },
+    'grid-template-rows': { 'subgrid': 'subgrid' },
+    'position': { 'sticky': 'sticky-positioning' },
+    'text-wrap': { 'balance': 'text-wrap-balance', 'pretty': 'text-wrap-pretty' },
+    'text-wrap-style': { 'balance': 'text-wrap-balance', 'pretty': 'text-wrap-pretty' }
+  },
+
+  functions: {
+    'color-mix': 'color-mix',
+    'oklch': 'oklab',
+    'oklab': 'oklab',
+    'lab': 'lab',
+    'lch': 'lab',
+    'hwb': 'hwb',
+    'color': 'color-function',
+    'light-dark': 'light-dark',
+    'clamp': 'min-max-clamp',
+    'min': 'min-max-clamp',
+    'max': 'min-max-clamp',
+    'round': 'round-mod-rem',
+    'mod': 'round-mod-rem',
+    'rem': 'round-mod-rem',
+    'sin': 'trig-functions',
+    'cos': 'trig-functions',
+    'tan': 'trig-functions',
+    'asin': 'trig-functions',
+    'acos': 'trig-functions',
+    'atan': 'trig-functions',
+    'atan2': 'trig-functions',
+    'anchor': 'anchor-positioning',
+    'image-set': 'image-set'
+  },
+
+  units: {
+    'dvh': 'viewport-unit-variants', 'dvw': 'viewport-unit-variants',
+    'dvi': 'viewport-unit-variants', 'dvb': 'viewport-unit-variants',
+    'dvmin': 'viewport-unit-variants', 'dvmax': 'viewport-unit-variants',
+    'svh': 'viewport-unit-variants', 'svw': 'viewport-unit-variants',
+    'svi': 'viewport-unit-variants', 'svb': 'viewport-unit-variants',
+    'svmin': 'viewport-unit-variants', 'svmax': 'viewport-unit-variants',
+    'lvh': 'viewport-unit-variants', 'lvw': 'viewport-unit-variants',
+    'lvi': 'viewport-unit-variants', 'lvb': 'viewport-unit-variants',
+    'lvmin': 'viewport-unit-variants', 'lvmax': 'viewport-unit-variants',
+    'vi': 'viewport-unit-variants', 'vb': 'viewport-unit-variants',
+    'cqw': 'container-queries', 'cqh': 'container-queries',
+    'cqi': 'container-queries', 'cqb': 'container-queries',
+    'cqmin': 'container-queries', 'cqmax': 'container-queries',
+    'lh': 'lh',
+    'rlh': 'rlh',
+    'ic': 'ic',
+    'cap': 'cap',
+    'rcap': 'rcap',
+    'rch': 'rch',
+    'rex': 'rex',
+    'ric': 'ric'
+  },
+
+  pseudoClasses: {
+    'has': 'has',
+    'is': 'is',
+    'where': 'where',
+    'focus-visible': 'focus-visible',
+    'focus-within': 'focus-within',
+    'user-valid': 'user-pseudos',
+    'user-invalid': 'user-pseudos',
+    'popover-open': 'popover',
+    'modal': 'modal',
+    'host': 'host',
+    'dir': 'dir-pseudo',
+    'state': 'state',
+    'placeholder-shown': 'placeholder-shown'
+  },
+
+  pseudoElements: {
+    'backdrop': 'backdrop',
+    'marker': 'marker',
+    'part': 'shadow-parts',
+    'view-transition': 'view-transitions',
+    'view-transition-group': 'view-transitions',
+    'view-transition-image-pair': 'view-transitions',
+    'view-transition-old': 'view-transitions',
+    'view-transition-new': 'view-transitions'
+  }
+};
+
+export const CSS_FEATURES: CssFeatureTable = withGeneratedCss(CURATED_CSS_FEATURES);
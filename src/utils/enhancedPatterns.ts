@@ -7,7 +7,6 @@ export interface PatternInfo {
   astPattern?: ASTPattern;
   language: string[];
   confidence: number;
-  contextRequired?: boolean;
   category: 'html' | 'css' | 'javascript' | 'api';
   description: string;
 }
@@ -20,87 +19,8 @@ export interface ASTPattern {
 }
 
 export const ENHANCED_WEB_PATTERNS: PatternInfo[] = [
-  // ========== CSS FEATURES (Using correct WebStatus API feature IDs) ==========
-  {
-    featureId: 'container-queries',
-    pattern: /@container\s*[^{]*\{/gi,
-    language: ['css', 'scss', 'less', 'stylus'],
-    confidence: 0.95,
-    category: 'css',
-    description: 'CSS Container Queries'
-  },
-  {
-    featureId: 'content-visibility',
-    pattern: /content-visibility\s*:/gi,
-    language: ['css', 'scss', 'less', 'stylus'],
-    confidence: 1.0,
-    category: 'css',
-    description: 'CSS content-visibility property'
-  },
-  {
-    featureId: 'css-cascade-layers',
-    pattern: /@layer\s+/gi,
-    language: ['css', 'scss', 'less'],
-    confidence: 0.95,
-    category: 'css',
-    description: 'CSS Cascade Layers'
-  },
-  {
-    featureId: 'has',
-    pattern: /:has\s*\(/gi,
-    language: ['css', 'scss', 'less', 'stylus'],
-    confidence: 0.9,
-    category: 'css',
-    description: 'CSS :has() pseudo-class'
-  },
-  {
-    featureId: 'grid',
-    pattern: /display\s*:\s*grid|grid-template-columns|grid-template-rows|grid-area/gi,
-    language: ['css', 'scss', 'less', 'stylus'],
-    confidence: 0.85,
-    category: 'css',
-    description: 'CSS Grid Layout'
-  },
-  {
-    featureId: 'flexbox',
-    pattern: /display\s*:\s*flex|flex-direction|flex-wrap|justify-content/gi,
-    language: ['css', 'scss', 'less', 'stylus'],
-    confidence: 0.8,
-    category: 'css',
-    description: 'CSS Flexbox'
-  },
-  {
-    featureId: 'subgrid',
-    pattern: /grid-template-(columns|rows)\s*:\s*subgrid/gi,
-    language: ['css', 'scss', 'less'],
-    confidence: 0.95,
-    category: 'css',
-    description: 'CSS Subgrid'
-  },
-  {
-    featureId: 'backdrop-filter',
-    pattern: /backdrop-filter\s*:/gi,
-    language: ['css', 'scss', 'less', 'stylus'],
-    confidence: 0.95,
-    category: 'css',
-    description: 'CSS backdrop-filter'
-  },
-  {
-    featureId: 'aspect-ratio',
-    pattern: /aspect-ratio\s*:/gi,
-    language: ['css', 'scss', 'less', 'stylus'],
-    confidence: 1.0,
-    category: 'css',
-    description: 'CSS aspect-ratio'
-  },
-  {
-    featureId: 'css-nesting',
-    pattern: /&\s*\{|&\s+\./gi,
-    language: ['css', 'scss', 'less'],
-    confidence: 0.7,
-    category: 'css',
-    description: 'CSS Nesting'
-  },
+  // CSS features are detected by the parser-based pass (see utils/cssFeatures.ts)
+  // HTML, JSX, Vue and Svelte markup by the HTML detector (see utils/htmlFeatures.ts)
   
   // ========== WEB APIs (Using correct WebStatus API feature IDs) ==========
   {
@@ -230,7 +150,6 @@ export const ENHANCED_WEB_PATTERNS: PatternInfo[] = [
     pattern: /\.animate\s*\(/g,
     language: ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'],
     confidence: 0.7,
-    contextRequired: true,
     category: 'api',
     description: 'Web Animations API'
   },
@@ -297,60 +216,10 @@ export const ENHANCED_WEB_PATTERNS: PatternInfo[] = [
   {
     featureId: 'pointer-events',
     pattern: /onpointer(down|up|move|cancel|over|out|enter|leave)/gi,
-    language: ['javascript', 'typescript', 'html', 'javascriptreact', 'typescriptreact'],
+    language: ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'],
     confidence: 0.85,
     category: 'api',
     description: 'Pointer Events'
-  },
-  
-  // ========== HTML FEATURES (Using correct WebStatus API feature IDs) ==========
-  {
-    featureId: 'dialog',
-    pattern: /<dialog[>\s]/gi,
-    language: ['html', 'javascriptreact', 'typescriptreact', 'vue', 'svelte'],
-    confidence: 0.95,
-    category: 'html',
-    description: 'HTML <dialog> element'
-  },
-  {
-    featureId: 'details',
-    pattern: /<details[>\s]/gi,
-    language: ['html', 'javascriptreact', 'typescriptreact', 'vue', 'svelte'],
-    confidence: 0.95,
-    category: 'html',
-    description: 'HTML <details> element'
-  },
-  {
-    featureId: 'picture',
-    pattern: /<picture[>\s]/gi,
-    language: ['html', 'javascriptreact', 'typescriptreact', 'vue', 'svelte'],
-    confidence: 0.95,
-    category: 'html',
-    description: 'HTML <picture> element'
-  },
-  {
-    featureId: 'loading-lazy',
-    pattern: /loading\s*=\s*["']lazy["']/gi,
-    language: ['html', 'javascriptreact', 'typescriptreact', 'vue'],
-    confidence: 0.9,
-    category: 'html',
-    description: 'HTML loading=lazy attribute'
-  },
-  {
-    featureId: 'template',
-    pattern: /<template[>\s]/gi,
-    language: ['html', 'javascriptreact', 'typescriptreact', 'vue'],
-    confidence: 0.95,
-    category: 'html',
-    description: 'HTML <template> element'
-  },
-  {
-    featureId: 'slot',
-    pattern: /<slot[>\s]/gi,
-    language: ['html', 'javascriptreact', 'typescriptreact', 'vue'],
-    confidence: 0.95,
-    category: 'html',
-    description: 'HTML <slot> element'
   }
 ];
 
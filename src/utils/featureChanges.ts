@@ -0,0 +1,98 @@
+// src/utils/featureChanges.ts
+import { BaselineStatus, BrowserImplementation, WebFeature } from '../webStatusApi';
+import { getBrowserName } from './constants';
+
+/**
+ * How one feature changed between two datasets: its Baseline status and
+ * the browsers whose availability or first version changed.
+ */
+export interface FeatureStatusChange {
+  featureId: string;
+  name: string;
+  baseline?: { from?: BaselineStatus['status']; to?: BaselineStatus['status'] };
+  browsers: Array<{ browser: string; from?: BrowserImplementation; to?: BrowserImplementation }>;
+}
+
+const STATUS_TEXT: { [status: string]: string } = {
+  limited: 'limited availability',
+  newly: 'newly available',
+  widely: 'widely available'
+};
+
+/**
+ * Status changes of the features in `next` that `previous` already had.
+ * Features new to the dataset are not changes; date-only corrections are
+ * ignored.
+ */
+export function diffFeatures(previous: Map<string, WebFeature>, next: WebFeature[]): FeatureStatusChange[] {
+  const changes: FeatureStatusChange[] = [];
+
+  for (const feature of next) {
+    const before = previous.get(feature.feature_id);
+    if (!before) {
+      continue;
+    }
+
+    const change: FeatureStatusChange = { featureId: feature.feature_id, name: feature.name, browsers: [] };
+    if (before.baseline?.status !== feature.baseline?.status) {
+      change.baseline = { from: before.baseline?.status, to: feature.baseline?.status };
+    }
+
+    const browsers = new Set([...Object.keys(before.browser_implementations), ...Object.keys(feature.browser_implementations)]);
+    for (const browser of browsers) {
+      const from = before.browser_implementations[browser];
+      const to = feature.browser_implementations[browser];
+      if (describeSupport(from) !== describeSupport(to)) {
+        change.browsers.push({ browser, from, to });
+      }
+    }
+
+    if (change.baseline || change.browsers.length > 0) {
+      changes.push(change);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * One line per change for a notification, e.g.
+ * `Container queries (newly → widely available)`.
+ */
+export function summarizeChange(change: FeatureStatusChange): string {
+  if (change.baseline) {
+    return `${change.name} (${change.baseline.from || 'unknown'} → ${STATUS_TEXT[change.baseline.to || ''] || 'unknown status'})`;
+  }
+  return `${change.name} (${change.browsers.map(({ browser }) => getBrowserName(browser)).join(', ')} support)`;
+}
+
+/**
+ * The "What changed" document: the changes to features used in the
+ * workspace, and a count of the other changes.
+ */
+export function renderChangeReport(used: FeatureStatusChange[], otherCount: number, dataset: string): string {
+  const lines = ['# Baseline status changes', '', `Data: ${dataset}`, ''];
+
+  for (const change of used) {
+    lines.push(`## ${change.name} (\`${change.featureId}\`)`, '');
+    if (change.baseline) {
+      lines.push(`- **Baseline:** ${STATUS_TEXT[change.baseline.from || ''] || 'unknown'} → ${STATUS_TEXT[change.baseline.to || ''] || 'unknown'}`);
+    }
+    for (const { browser, from, to } of change.browsers) {
+      lines.push(`- **${getBrowserName(browser)}:** ${describeSupport(from)} → ${describeSupport(to)}`);
+    }
+    lines.push('');
+  }
+
+  if (otherCount > 0) {
+    lines.push(`${otherCount} other feature${otherCount === 1 ? '' : 's'} not used in this workspace also changed.`, '');
+  }
+  return lines.join('\n');
+}
+
+function describeSupport(implementation: BrowserImplementation | undefined): string {
+  if (!implementation || implementation.status !== 'available') {
+    return 'unavailable';
+  }
+  return implementation.version ? `since ${implementation.version}` : 'available';
+}
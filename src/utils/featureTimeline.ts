@@ -0,0 +1,105 @@
+// src/utils/featureTimeline.ts
+import { BaselineStatus, WebFeature } from '../webStatusApi';
+import { getBrowserName } from './constants';
+import { projectWidelyAvailable } from './baselinePolicy';
+
+export interface TimelineEvent {
+  date: string;
+  kind: 'browser' | 'newly' | 'widely';
+  label: string;
+  // A widely-available date computed from the newly-available date, not yet reached in the data
+  projected?: boolean;
+}
+
+/**
+ * A feature's history: when each browser first shipped it, when it became
+ * Baseline newly and widely available, and for newly available features
+ * when it is expected to become widely available.
+ */
+export interface FeatureTimeline {
+  featureId: string;
+  name: string;
+  status?: BaselineStatus['status'];
+  lowDate?: string;
+  highDate?: string;
+  projectedHighDate?: string;
+  // Browsers in the data that have not shipped the feature
+  unavailableIn: string[];
+  // Oldest first
+  events: TimelineEvent[];
+}
+
+export function buildTimeline(feature: WebFeature): FeatureTimeline {
+  const events: TimelineEvent[] = [];
+  const unavailableIn: string[] = [];
+
+  for (const [browser, implementation] of Object.entries(feature.browser_implementations)) {
+    if (implementation.status !== 'available') {
+      unavailableIn.push(getBrowserName(browser));
+    } else if (implementation.date) {
+      const version = implementation.version ? ` ${implementation.version}` : '';
+      events.push({ date: implementation.date, kind: 'browser', label: `${getBrowserName(browser)}${version}` });
+    }
+  }
+
+  const { status, low_date: lowDate, high_date: highDate } = feature.baseline || {};
+  if (lowDate) {
+    events.push({ date: lowDate, kind: 'newly', label: 'Baseline newly available' });
+  }
+
+  let projectedHighDate: string | undefined;
+  if (highDate) {
+    events.push({ date: highDate, kind: 'widely', label: 'Baseline widely available' });
+  } else if (status === 'newly' && lowDate) {
+    projectedHighDate = projectWidelyAvailable(lowDate);
+    events.push({ date: projectedHighDate, kind: 'widely', label: 'Baseline widely available', projected: true });
+  }
+
+  // Browsers before the Baseline milestones they complete on the same day
+  const order = { browser: 0, newly: 1, widely: 2 };
+  events.sort((a, b) => a.date.localeCompare(b.date) || order[a.kind] - order[b.kind]);
+
+  return {
+    featureId: feature.feature_id,
+    name: feature.name,
+    status,
+    lowDate,
+    highDate,
+    projectedHighDate,
+    unavailableIn,
+    events
+  };
+}
+
+/**
+ * The timeline as a Markdown document for the "Show Feature Timeline" view.
+ */
+export function renderTimeline(timeline: FeatureTimeline): string {
+  const statusText = { limited: 'Limited availability', newly: 'Newly available', widely: 'Widely available' };
+  const lines = [
+    `# ${timeline.name} timeline`,
+    '',
+    `\`${timeline.featureId}\` · ${timeline.status ? statusText[timeline.status] : 'Unknown availability'}`,
+    ''
+  ];
+
+  if (timeline.events.length > 0) {
+    lines.push('| Date | Event |', '| --- | --- |');
+    for (const event of timeline.events) {
+      const date = event.projected ? `${event.date} (projected)` : event.date;
+      const label = event.kind === 'browser' ? `Ships in ${event.label}` : `**${event.label}**`;
+      lines.push(`| ${date} | ${label} |`);
+    }
+    lines.push('');
+  } else {
+    lines.push('No release dates are known for this feature.', '');
+  }
+
+  if (timeline.unavailableIn.length > 0) {
+    lines.push(`Not yet available in: ${timeline.unavailableIn.join(', ')}.`, '');
+  }
+  if (timeline.status === 'limited') {
+    lines.push('Baseline dates follow once every core browser ships the feature.', '');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,66 @@
+// src/utils/generatedRules.ts
+import generated from '../data/generatedRules.json';
+import { CssFeatureTable } from './cssFeatures';
+import { HtmlFeatureRule } from './htmlFeatures';
+
+/**
+ * Rule table derived from the web-features dataset by
+ * scripts/generate-rules.js (`npm run generate-rules`). Each feature's
+ * `compat_features` BCD keys become matchers:
+ *
+ *   api.Navigator.share               → symbol `Navigator.share`
+ *   javascript.builtins.Array.at      → symbol `Array.at`
+ *   css.properties.aspect-ratio       → CSS property
+ *   css.selectors.has                 → pseudo-class / pseudo-element
+ *   html.elements.dialog              → HTML element
+ *
+ * The hand-written tables take precedence; this one fills the gaps.
+ */
+export interface GeneratedRuleTable {
+  source: { package: string; version: string };
+  // Same key format as SYMBOL_FEATURE_MAP
+  symbols: { [symbolKey: string]: string };
+  // BCD does not tell pseudo-classes from pseudo-elements, so both share `selectors`
+  css: Omit<CssFeatureTable, 'pseudoClasses' | 'pseudoElements'> & { selectors: { [name: string]: string } };
+  html: HtmlFeatureRule[];
+}
+
+export const GENERATED_RULES: GeneratedRuleTable = generated;
+
+/**
+ * Adds the generated CSS entries to a hand-written table without
+ * overriding any of its entries.
+ */
+export function withGeneratedCss(curated: CssFeatureTable): CssFeatureTable {
+  const css = GENERATED_RULES.css;
+  const propertyValues: CssFeatureTable['propertyValues'] = { ...css.propertyValues };
+  for (const [property, keywords] of Object.entries(curated.propertyValues)) {
+    propertyValues[property] = { ...propertyValues[property], ...keywords };
+  }
+
+  return {
+    atRules: { ...css.atRules, ...curated.atRules },
+    mediaFeatures: { ...css.mediaFeatures, ...curated.mediaFeatures },
+    properties: { ...css.properties, ...curated.properties },
+    propertyValues,
+    functions: { ...css.functions, ...curated.functions },
+    units: { ...css.units, ...curated.units },
+    pseudoClasses: { ...css.selectors, ...curated.pseudoClasses },
+    pseudoElements: { ...css.selectors, ...curated.pseudoElements }
+  };
+}
+
+/**
+ * Appends the generated HTML rules for elements and attributes the
+ * hand-written rules do not cover. A hand-written value rule such as
+ * `loading="lazy"` owns its attribute, so `loading` alone is not added.
+ */
+export function withGeneratedHtml(curated: HtmlFeatureRule[]): HtmlFeatureRule[] {
+  const ruleKey = (rule: HtmlFeatureRule) => `${rule.element || '*'}|${rule.attribute || ''}`;
+  const known = new Set(curated.map(ruleKey));
+  return [...curated, ...GENERATED_RULES.html.filter(rule => !known.has(ruleKey(rule)))];
+}
+
+export function withGeneratedSymbols(curated: { [symbolKey: string]: string }): { [symbolKey: string]: string } {
+  return { ...GENERATED_RULES.symbols, ...curated };
+}
@@ -0,0 +1,85 @@
+// src/utils/htmlFeatures.ts
+import { withGeneratedHtml } from './generatedRules';
+
+/**
+ * One row of the declarative HTML feature table.
+ * - `element` only: the element itself (`<dialog>`)
+ * - `attribute` only: a global attribute on any element (`popover`)
+ * - `element` + `attribute`: an attribute of that element (`<img fetchpriority>`)
+ * - `value`: the attribute must have this value (`<script type="importmap">`);
+ *   for token lists such as `rel` any token may match
+ */
+export interface HtmlFeatureRule {
+  featureId: string;
+  element?: string;
+  attribute?: string;
+  value?: string;
+}
+
+// Attributes whose value is a space-separated token list
+export const TOKEN_LIST_ATTRIBUTES = ['rel', 'sandbox', 'sizes', 'part', 'exportparts', 'blocking'];
+
+// Hand-written rules; generated rules repeating one of them are dropped
+const CURATED_HTML_FEATURE_RULES: HtmlFeatureRule[] = [
+  // ========== ELEMENTS ==========
+  { featureId: 'dialog', element: 'dialog' },
+  { featureId: 'details', element: 'details' },
+  { featureId: 'picture', element: 'picture' },
+  { featureId: 'template', element: 'template' },
+  { featureId: 'slot', element: 'slot' },
+  { featureId: 'search', element: 'search' },
+
+  // ========== GLOBAL ATTRIBUTES ==========
+  { featureId: 'popover', attribute: 'popover' },
+  { featureId: 'inert', attribute: 'inert' },
+  { featureId: 'enterkeyhint', attribute: 'enterkeyhint' },
+  { featureId: 'inputmode', attribute: 'inputmode' },
+  { featureId: 'autofocus', attribute: 'autofocus' },
+  { featureId: 'shadow-parts', attribute: 'part' },
+  { featureId: 'shadow-parts', attribute: 'exportparts' },
+  { featureId: 'hidden-until-found', attribute: 'hidden', value: 'until-found' },
+  { featureId: 'pointer-events-api', attribute: 'onpointerdown' },
+  { featureId: 'pointer-events-api', attribute: 'onpointerup' },
+  { featureId: 'pointer-events-api', attribute: 'onpointermove' },
+  { featureId: 'pointer-events-api', attribute: 'onpointercancel' },
+  { featureId: 'pointer-events-api', attribute: 'onpointerover' },
+  { featureId: 'pointer-events-api', attribute: 'onpointerout' },
+  { featureId: 'pointer-events-api', attribute: 'onpointerenter' },
+  { featureId: 'pointer-events-api', attribute: 'onpointerleave' },
+
+  // ========== ELEMENT ATTRIBUTES ==========
+  { featureId: 'fetch-priority', element: 'img', attribute: 'fetchpriority' },
+  { featureId: 'fetch-priority', element: 'link', attribute: 'fetchpriority' },
+  { featureId: 'fetch-priority', element: 'script', attribute: 'fetchpriority' },
+  { featureId: 'loading-lazy', element: 'img', attribute: 'loading', value: 'lazy' },
+  { featureId: 'loading-lazy', element: 'iframe', attribute: 'loading', value: 'lazy' },
+  { featureId: 'srcset', element: 'img', attribute: 'srcset' },
+  { featureId: 'sizes-auto', element: 'img', attribute: 'sizes', value: 'auto' },
+  { featureId: 'dialog-closedby', element: 'dialog', attribute: 'closedby' },
+  { featureId: 'details-name', element: 'details', attribute: 'name' },
+  { featureId: 'popover', element: 'button', attribute: 'popovertarget' },
+  { featureId: 'popover', element: 'input', attribute: 'popovertarget' },
+  { featureId: 'invoker-commands', element: 'button', attribute: 'commandfor' },
+  { featureId: 'declarative-shadow-dom', element: 'template', attribute: 'shadowrootmode' },
+  { featureId: 'blocking-render', element: 'link', attribute: 'blocking' },
+  { featureId: 'blocking-render', element: 'script', attribute: 'blocking' },
+  { featureId: 'iframe-credentialless', element: 'iframe', attribute: 'credentialless' },
+  { featureId: 'download', element: 'a', attribute: 'download' },
+
+  // ========== ATTRIBUTE VALUES ==========
+  { featureId: 'import-maps', element: 'script', attribute: 'type', value: 'importmap' },
+  { featureId: 'js-modules', element: 'script', attribute: 'type', value: 'module' },
+  { featureId: 'modulepreload', element: 'link', attribute: 'rel', value: 'modulepreload' },
+  { featureId: 'link-rel-preload', element: 'link', attribute: 'rel', value: 'preload' },
+  { featureId: 'link-rel-preconnect', element: 'link', attribute: 'rel', value: 'preconnect' },
+  { featureId: 'link-rel-dns-prefetch', element: 'link', attribute: 'rel', value: 'dns-prefetch' },
+  { featureId: 'meta-theme-color', element: 'meta', attribute: 'name', value: 'theme-color' },
+  { featureId: 'input-color', element: 'input', attribute: 'type', value: 'color' },
+  { featureId: 'input-date-time', element: 'input', attribute: 'type', value: 'date' },
+  { featureId: 'input-date-time', element: 'input', attribute: 'type', value: 'datetime-local' },
+  { featureId: 'input-date-time', element: 'input', attribute: 'type', value: 'month' },
+  { featureId: 'input-date-time', element: 'input', attribute: 'type', value: 'time' },
+  { featureId: 'input-date-time', element: 'input', attribute: 'type', value: 'week' }
+];
+
+export const HTML_FEATURE_RULES: HtmlFeatureRule[] = withGeneratedHtml(CURATED_HTML_FEATURE_RULES);
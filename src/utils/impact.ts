@@ -0,0 +1,166 @@
+// src/utils/impact.ts
+import { WebFeature } from '../webStatusApi';
+import { BROWSERSLIST_TO_WEBSTATUS, compareVersions } from '../services/browserTargets';
+import { BROWSERS } from './constants';
+
+/**
+ * A browser-share table as committed to a repository, e.g. exported from
+ * analytics: shares keyed by browser, either one number per browser or one
+ * per version. Browsers are WebStatus keys (`safari_ios`) or browserslist
+ * names (`ios_saf`), so browserslist stats files work as they are:
+ *
+ *   { "chrome": { "124": 31.5, "123": 4.2 }, "ios_saf": { "17.4": 12 }, "firefox": 3.1 }
+ */
+export type AudienceTable = { [browser: string]: number | { [version: string]: number } };
+
+export interface AudienceShare {
+  // WebStatus browser key
+  browser: string;
+  // Lowest version of the entry; unset when the table has one share for the whole browser
+  version?: string;
+  share: number;
+}
+
+export interface Audience {
+  shares: AudienceShare[];
+  // Browsers in the table that WebStatus has no data for; they are left out of the score
+  untracked: string[];
+}
+
+/**
+ * How much fixing a finding matters, from 0 to 100: the share of the
+ * audience that lacks the feature, weighted by how common the feature is
+ * on the web.
+ */
+export interface Impact {
+  score: number;
+  // 0–1: the share of the audience table, or of the core browsers when there is none
+  lacking: number;
+  basis: 'audience' | 'browsers';
+  // 0–1: share of Chrome page loads using the feature, when the data has it
+  webUsage?: number;
+}
+
+/**
+ * Reads a browser-share table. Throws when it is not an object of shares.
+ */
+export function parseAudienceTable(table: AudienceTable): Audience {
+  if (typeof table !== 'object' || table === null || Array.isArray(table)) {
+    throw new Error('expected an object of browser shares');
+  }
+
+  const shares: AudienceShare[] = [];
+  const untracked: string[] = [];
+
+  for (const [name, value] of Object.entries(table)) {
+    const browser = name in BROWSERS ? name : BROWSERSLIST_TO_WEBSTATUS[name];
+    if (!browser) {
+      untracked.push(name);
+      continue;
+    }
+
+    if (typeof value === 'number') {
+      shares.push({ browser, share: value });
+    } else if (typeof value === 'object' && value !== null) {
+      // Ranges such as "15.6-15.8" start at their first version
+      for (const [version, share] of Object.entries(value)) {
+        shares.push({ browser, version: version.split('-')[0], share });
+      }
+    }
+  }
+
+  return { shares: shares.filter(entry => typeof entry.share === 'number' && entry.share > 0), untracked };
+}
+
+/**
+ * Scores a feature against an audience. Without an audience table every
+ * core browser counts the same, at its current version, and browsers the
+ * data does not list lack the feature. Web usage scales the score between
+ * half and all of the lacking share: features rarely seen on the web, or
+ * without usage data, count for less.
+ */
+export function computeImpact(feature: WebFeature, audience?: Audience): Impact {
+  let lacking: number;
+  let basis: Impact['basis'];
+
+  if (audience && audience.shares.length > 0) {
+    const total = audience.shares.reduce((sum, entry) => sum + entry.share, 0);
+    const missing = audience.shares
+      .filter(entry => lacksFeature(feature, entry))
+      .reduce((sum, entry) => sum + entry.share, 0);
+    lacking = missing / total;
+    basis = 'audience';
+  } else {
+    // WebStatus lists only the browsers that implement a feature, so a missing entry lacks it
+    const browsers = Object.keys(BROWSERS);
+    const missing = browsers.filter(browser => feature.browser_implementations[browser]?.status !== 'available').length;
+    lacking = missing / browsers.length;
+    basis = 'browsers';
+  }
+
+  const webUsage = feature.usage?.chrome?.daily;
+  const popularity = webUsage === undefined ? 0 : webPopularity(webUsage);
+
+  return {
+    score: Math.round(100 * lacking * (0.5 + 0.5 * popularity)),
+    lacking,
+    basis,
+    webUsage
+  };
+}
+
+function lacksFeature(feature: WebFeature, entry: AudienceShare): boolean {
+  const impl = feature.browser_implementations[entry.browser];
+  if (!impl || impl.status !== 'available') {
+    return true;
+  }
+  return entry.version !== undefined && impl.version !== '' && compareVersions(entry.version, impl.version) < 0;
+}
+
+// Page-load share on a log scale: 0.0001% or less → 0, 100% → 1
+function webPopularity(daily: number): number {
+  return Math.min(1, Math.max(0, (Math.log10(Math.max(daily, 1e-6)) + 6) / 6));
+}
+
+/**
+ * e.g. `Impact 42/100: 48% of your audience lacks it`.
+ */
+export function describeImpact(impact: Impact): string {
+  const percent = Math.round(impact.lacking * 100);
+  const who = impact.basis === 'audience' ? `${percent}% of your audience lacks it` : `missing in ${percent}% of core browsers`;
+  return `Impact ${impact.score}/100: ${who}`;
+}
+
+export interface ImpactReportEntry {
+  featureId: string;
+  name: string;
+  // Workspace-relative path and 1-based line
+  location: string;
+  impact: Impact;
+}
+
+/**
+ * The "Impact Report" document: findings in the analyzed files, most
+ * impactful first.
+ */
+export function renderImpactReport(entries: ImpactReportEntry[], dataset: string): string {
+  const lines = ['# Findings by impact', '', `Data: ${dataset}`, ''];
+
+  if (entries.length === 0) {
+    lines.push('No findings in the analyzed files.', '');
+    return lines.join('\n');
+  }
+
+  lines.push('| Impact | Feature | Lacking | Web usage | Location |', '| ---: | --- | ---: | ---: | --- |');
+  for (const { featureId, name, location, impact } of entries) {
+    const lacking = `${Math.round(impact.lacking * 100)}%${impact.basis === 'browsers' ? ' of browsers' : ''}`;
+    const usage = impact.webUsage === undefined ? '—' : `${(impact.webUsage * 100).toFixed(4)}%`;
+    lines.push(`| ${impact.score} | ${name} (\`${featureId}\`) | ${lacking} | ${usage} | ${location} |`);
+  }
+  lines.push('');
+
+  if (entries.some(entry => entry.impact.basis === 'browsers')) {
+    lines.push('Files without an `audience` table in .baselineguard.json count every core browser the same.', '');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,40 @@
+// src/utils/packageManifest.ts
+import * as fs from 'fs';
+
+/**
+ * The package.json fields read when classifying files and finding polyfills
+ * and transpilers. Values come straight from the file, so check their types
+ * before use.
+ */
+export interface PackageManifest {
+  main?: string;
+  module?: string;
+  // Entry file some bundlers read instead of `main`
+  source?: string;
+  // The browser entry file, or files swapped for browser builds (`false` drops them)
+  browser?: string | { [file: string]: string | false };
+  bin?: string | { [command: string]: string };
+  dependencies?: { [name: string]: string };
+  // Babel options, as in .babelrc
+  babel?: { presets?: unknown[] };
+}
+
+/**
+ * Parses a JSON file. Returns undefined when it is missing or not JSON.
+ */
+export function readJsonFile(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads a package.json file. Returns undefined when it is missing or does
+ * not hold an object.
+ */
+export function readPackageManifest(file: string): PackageManifest | undefined {
+  const json = readJsonFile(file);
+  return typeof json === 'object' && json !== null && !Array.isArray(json) ? json as PackageManifest : undefined;
+}
@@ -0,0 +1,161 @@
+// src/utils/polyfills.ts
+import { SYMBOL_FEATURE_MAP } from './symbolFeatureMap';
+import { SYNTAX_FEATURES } from './syntaxFeatures';
+
+/**
+ * Polyfill packages and the web-features IDs they provide. A package also
+ * covers its sub-paths, so `abortcontroller-polyfill/dist/polyfill-patch-fetch`
+ * counts as `abortcontroller-polyfill`.
+ */
+export const POLYFILL_PACKAGES: { [packageName: string]: string[] } = {
+  // ========== OBSERVERS ==========
+  'resize-observer-polyfill': ['resize-observer'],
+  '@juggle/resize-observer': ['resize-observer'],
+  'intersection-observer': ['intersection-observer'],
+  'mutationobserver-shim': ['mutationobserver'],
+
+  // ========== NETWORK ==========
+  'whatwg-fetch': ['fetch'],
+  'abortcontroller-polyfill': ['aborting'],
+  'abort-controller': ['aborting'],
+  'url-polyfill': ['url'],
+  'urlpattern-polyfill': ['urlpattern'],
+  'broadcastchannel-polyfill': ['broadcast-channel'],
+
+  // ========== DOM & COMPONENTS ==========
+  '@webcomponents/webcomponentsjs': ['autonomous-custom-elements', 'shadow-dom', 'template'],
+  '@webcomponents/custom-elements': ['autonomous-custom-elements'],
+  'element-internals-polyfill': ['form-associated-custom-elements'],
+  'construct-style-sheets-polyfill': ['constructed-stylesheets'],
+  'dialog-polyfill': ['dialog'],
+  '@oddbird/popover-polyfill': ['popover'],
+  'wicg-inert': ['inert'],
+  'web-animations-js': ['web-animations'],
+  'requestidlecallback-polyfill': ['requestidlecallback'],
+
+  // ========== CSS ==========
+  'smoothscroll-polyfill': ['scroll-behavior'],
+  'focus-visible': ['focus-visible'],
+  'css-has-pseudo': ['has'],
+  'container-query-polyfill': ['container-queries'],
+
+  // ========== INTL ==========
+  '@formatjs/intl-segmenter': ['intl-segmenter']
+};
+
+// `core-js/stable`, `core-js/actual/array/at`, `core-js/modules/es.array.at`
+const CORE_JS_ENTRY = /^core-js(?:-pure)?(?:\/(es|stable|actual|full|features|proposals|web|stage\/\d)(?:\/(.*))?)?$/;
+const CORE_JS_MODULE = /^core-js(?:-pure)?\/modules\/(?:es|esnext|web)\.([\w-]+)(?:\.([\w-]+))?$/;
+
+// Globals core-js polyfills when a whole entry point is loaded
+const CORE_JS_ES_GLOBALS = [
+  'AggregateError', 'Array', 'ArrayBuffer', 'DataView', 'Error', 'Function', 'globalThis', 'Iterator',
+  'JSON', 'Map', 'Math', 'Number', 'Object', 'Promise', 'Reflect', 'String', 'Set', 'Symbol',
+  'TypedArray', 'WeakMap', 'WeakRef', 'WeakSet'
+];
+const CORE_JS_WEB_GLOBALS = ['queueMicrotask', 'structuredClone', 'URL', 'URLSearchParams'];
+
+// Polyfills supply runtime APIs; features that are syntax are never covered through core-js
+const SYNTAX_FEATURE_IDS = new Set(Object.values(SYNTAX_FEATURES).map(feature => feature.featureId));
+
+/**
+ * The feature IDs a module specifier provides when it is imported,
+ * e.g. `core-js/actual/array/at` → `array-at`.
+ */
+export function featuresForModule(specifier: string): string[] {
+  const packageName = Object.keys(POLYFILL_PACKAGES).find(name =>
+    specifier === name || specifier.startsWith(`${name}/`)
+  );
+  if (packageName) {
+    return POLYFILL_PACKAGES[packageName];
+  }
+
+  const entry = CORE_JS_ENTRY.exec(specifier);
+  if (entry) {
+    const [, namespace = 'stable', path] = entry;
+    if (!path) {
+      const globals = namespace === 'es' ? CORE_JS_ES_GLOBALS : [...CORE_JS_ES_GLOBALS, ...CORE_JS_WEB_GLOBALS];
+      return featuresForSymbols(root => globals.some(name => normalize(name) === root));
+    }
+    const [global, member] = path.replace(/\/index(\.js)?$/, '').split('/');
+    return featuresForPath(global, member);
+  }
+
+  const module = CORE_JS_MODULE.exec(specifier);
+  if (module) {
+    return featuresForPath(module[1], module[2]);
+  }
+
+  return [];
+}
+
+/**
+ * The feature IDs a polyfill service URL provides, e.g.
+ * `https://cdnjs.cloudflare.com/polyfill/v3/polyfill.min.js?features=ResizeObserver,Array.prototype.at`.
+ */
+export function featuresForPolyfillUrl(url: string): string[] {
+  let features: string | null;
+  try {
+    features = new URL(url.replace(/&amp;/g, '&'), 'https://localhost/').searchParams.get('features');
+  } catch {
+    return [];
+  }
+
+  const ids = new Set<string>();
+  for (const name of (features || '').split(/[,+]/)) {
+    // `Array.prototype.at|always|gated` → `Array.at`
+    const symbol = name.split('|')[0].trim().replace('.prototype.', '.');
+    const featureId = SYMBOL_FEATURE_MAP[symbol] || SYMBOL_FEATURE_MAP[`Window.${symbol}`];
+    if (featureId) {
+      ids.add(featureId);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Module specifiers imported or required in a script, and polyfill
+ * service URLs loaded by `<script src>` in markup.
+ */
+export function findPolyfillReferences(text: string): { modules: string[]; urls: string[] } {
+  const modules: string[] = [];
+  const urls: string[] = [];
+
+  const importPattern = /\b(?:import\s*(?:[\w$*{}\s,]+\s*from\s*)?|require\s*\(\s*|import\s*\(\s*)['"]([^'"]+)['"]/g;
+  for (const match of text.matchAll(importPattern)) {
+    modules.push(match[1]);
+  }
+
+  const scriptPattern = /<script\b[^>]*\bsrc\s*=\s*["']([^"']*\bfeatures=[^"']*)["']/gi;
+  for (const match of text.matchAll(scriptPattern)) {
+    urls.push(match[1]);
+  }
+
+  return { modules, urls };
+}
+
+// `find-last` → `findlast`, matching `Array.findLast` case-insensitively
+function normalize(name: string): string {
+  return name.replace(/-/g, '').toLowerCase();
+}
+
+function featuresForPath(global: string, member: string | undefined): string[] {
+  // core-js/actual/instance/at covers `.at()` on every type
+  if (global === 'instance' && member) {
+    return featuresForSymbols((_, symbolMember) => symbolMember === normalize(member));
+  }
+  return featuresForSymbols((root, symbolMember) =>
+    root === normalize(global) && (!member || symbolMember === normalize(member))
+  );
+}
+
+function featuresForSymbols(accept: (root: string, member: string | undefined) => boolean): string[] {
+  const ids = new Set<string>();
+  for (const [symbol, featureId] of Object.entries(SYMBOL_FEATURE_MAP)) {
+    const [root, member] = symbol.split('.');
+    if (!SYNTAX_FEATURE_IDS.has(featureId) && accept(normalize(root), member && normalize(member))) {
+      ids.add(featureId);
+    }
+  }
+  return [...ids];
+}
@@ -0,0 +1,80 @@
+// src/utils/subFeatures.ts
+import { SupportCaveat, WebFeature } from '../webStatusApi';
+import { getBrowserName } from './constants';
+
+/**
+ * The sub-feature of `feature` named by the first of `compatKeys` it has,
+ * e.g. `css.properties.display.grid`. `*.name` matches any key ending in
+ * `.name`, for BCD paths a detector cannot spell out.
+ */
+export function findSubFeature(feature: WebFeature, compatKeys: string[] | undefined): string | undefined {
+  const subFeatures = feature.sub_features;
+  if (!subFeatures || !compatKeys) {
+    return undefined;
+  }
+
+  for (const candidate of compatKeys) {
+    if (candidate.startsWith('*.')) {
+      const suffix = candidate.slice(1);
+      const key = Object.keys(subFeatures).find(compatKey => compatKey.endsWith(suffix));
+      if (key) {
+        return key;
+      }
+    } else if (subFeatures[candidate]) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The feature as seen through one sub-feature: its Baseline status, and
+ * its support where it differs from the feature's.
+ */
+export function withSubFeature(feature: WebFeature, compatKey: string): WebFeature {
+  const subFeature = feature.sub_features![compatKey];
+  return {
+    ...feature,
+    baseline: subFeature.baseline || feature.baseline,
+    browser_implementations: { ...feature.browser_implementations, ...subFeature.browser_implementations }
+  };
+}
+
+/**
+ * BCD keys for a symbol such as `Navigator.share` or `Array.at`.
+ */
+export function compatKeysForSymbol(symbolKey: string): string[] {
+  return [`api.${symbolKey}`, `javascript.builtins.${symbolKey}`];
+}
+
+/**
+ * e.g. `-webkit- prefix from 9`, `partial from 15.4`, `behind flag layout.css.has-selector.enabled from 103`.
+ */
+export function describeCaveat(caveat: SupportCaveat): string {
+  const parts: string[] = [];
+  if (caveat.partial) {
+    parts.push('partial');
+  }
+  if (caveat.prefix) {
+    parts.push(`${caveat.prefix} prefix`);
+  }
+  if (caveat.alternative_name) {
+    parts.push(`as ${caveat.alternative_name}`);
+  }
+  if (caveat.flags) {
+    parts.push(`behind flag ${caveat.flags.join(', ')}`);
+  }
+  return `${parts.join(', ')} from ${caveat.version}`;
+}
+
+/**
+ * Support caveats of a feature per browser, e.g.
+ * `Safari: -webkit- prefix from 9`.
+ */
+export function describeCaveats(feature: WebFeature): string[] {
+  return Object.entries(feature.browser_implementations)
+    .filter(([, implementation]) => implementation.caveats?.length)
+    .map(([browser, implementation]) =>
+      `${getBrowserName(browser)}: ${implementation.caveats!.map(describeCaveat).join('; ')}`
+    );
+}
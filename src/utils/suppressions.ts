@@ -0,0 +1,99 @@
+// src/utils/suppressions.ts
+
+/**
+ * Inline suppression comments, in any comment syntax:
+ *
+ *   // baseline-guard-disable-next-line share
+ *   /* baseline-guard-disable container-queries *\/ ... /* baseline-guard-enable *\/
+ *   <!-- baseline-guard-disable dialog, popover -->
+ *
+ * Without feature IDs a directive applies to every feature.
+ */
+export const SUPPRESSION_PREFIX = 'baseline-guard';
+
+export type SuppressionDirective = 'disable-next-line' | 'disable' | 'enable';
+
+// How a comment is written at the insertion point
+export type CommentStyle = 'line' | 'block' | 'jsx' | 'html';
+
+interface SuppressedRange {
+  startLine: number;
+  // Inclusive; Infinity while no matching enable follows
+  endLine: number;
+  // Empty for every feature
+  featureIds: string[];
+}
+
+const DIRECTIVE_PATTERN = /(?:\/\/|\/\*|<!--)\s*baseline-guard-(disable-next-line|disable|enable)\b(.*?)(?:\*\/|-->|$)/gm;
+
+export class Suppressions {
+  constructor(private ranges: SuppressedRange[]) {}
+
+  get size(): number {
+    return this.ranges.length;
+  }
+
+  isSuppressed(featureId: string, line: number): boolean {
+    return this.ranges.some(range =>
+      range.startLine <= line && line <= range.endLine &&
+      (range.featureIds.length === 0 || range.featureIds.includes(featureId))
+    );
+  }
+}
+
+export function parseSuppressions(text: string): Suppressions {
+  const ranges: SuppressedRange[] = [];
+  const open: SuppressedRange[] = [];
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  const lineAt = (offset: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return line;
+  };
+
+  DIRECTIVE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = DIRECTIVE_PATTERN.exec(text)) !== null) {
+    const directive = match[1] as SuppressionDirective;
+    const featureIds = match[2].split(/[\s,]+/).filter(id => /^[a-z0-9-]+$/.test(id));
+    const line = lineAt(match.index);
+
+    if (directive === 'disable-next-line') {
+      ranges.push({ startLine: line + 1, endLine: line + 1, featureIds });
+    } else if (directive === 'disable') {
+      const range = { startLine: line, endLine: Infinity, featureIds };
+      ranges.push(range);
+      open.push(range);
+    } else {
+      for (const range of open.splice(0)) {
+        // An enable with IDs leaves blanket disables open
+        const closes = featureIds.length === 0 ||
+          (range.featureIds.length > 0 && range.featureIds.every(id => featureIds.includes(id)));
+        if (closes) {
+          range.endLine = line;
+        } else {
+          open.push(range);
+        }
+      }
+    }
+  }
+
+  return new Suppressions(ranges);
+}
+
+export function formatSuppressionComment(directive: SuppressionDirective, featureId: string, style: CommentStyle): string {
+  const body = `${SUPPRESSION_PREFIX}-${directive} ${featureId}`;
+  switch (style) {
+    case 'line': return `// ${body}`;
+    case 'block': return `/* ${body} */`;
+    case 'jsx': return `{/* ${body} */}`;
+    case 'html': return `<!-- ${body} -->`;
+  }
+}
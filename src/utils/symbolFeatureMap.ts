@@ -0,0 +1,111 @@
+// src/utils/symbolFeatureMap.ts
+import { withGeneratedSymbols } from './generatedRules';
+
+/**
+ * Maps declarations from the TypeScript DOM / ES lib files to web-features IDs.
+ *
+ * Keys are `Interface.member` for members (`Navigator.share`, `Array.at`) and the
+ * bare name for globals (`structuredClone`, `IntersectionObserver`). Static members
+ * declared on `XConstructor` interfaces are keyed as `X.member` (`Object.hasOwn`),
+ * and members of the typed arrays as `TypedArray.member`.
+ */
+const CURATED_SYMBOL_FEATURE_MAP: { [symbolKey: string]: string } = {
+  // ========== WEB APIs ==========
+  'Navigator.share': 'share',
+  'Navigator.canShare': 'share',
+  'Navigator.clipboard': 'async-clipboard',
+  'Clipboard.read': 'async-clipboard',
+  'Clipboard.readText': 'async-clipboard',
+  'Clipboard.write': 'async-clipboard',
+  'Clipboard.writeText': 'async-clipboard',
+  'Navigator.serviceWorker': 'service-workers',
+  'Navigator.geolocation': 'geolocation',
+  'Navigator.userActivation': 'user-activation',
+  'Navigator.locks': 'web-locks',
+  'IntersectionObserver': 'intersection-observer',
+  'ResizeObserver': 'resize-observer',
+  'MutationObserver': 'mutationobserver',
+  'AbortController': 'aborting',
+  'AbortSignal.timeout': 'abortsignal-timeout',
+  'AbortSignal.any': 'abortsignal-any',
+  'BroadcastChannel': 'broadcast-channel',
+  'Document.startViewTransition': 'view-transitions',
+  'Element.animate': 'web-animations',
+  'Element.checkVisibility': 'check-visibility',
+  'HTMLElement.showPopover': 'popover',
+  'HTMLElement.hidePopover': 'popover',
+  'HTMLElement.togglePopover': 'popover',
+  'HTMLDialogElement.showModal': 'dialog',
+  'PaymentRequest': 'payment-request',
+  'Notification': 'notifications',
+  'WebSocket': 'websockets',
+  'URLPattern': 'urlpattern',
+  'CompressionStream': 'compression-streams',
+  'DecompressionStream': 'compression-streams',
+  'fetch': 'fetch',
+  'structuredClone': 'structured-clone',
+  'queueMicrotask': 'queuemicrotask',
+  'requestIdleCallback': 'requestidlecallback',
+  'Window.requestIdleCallback': 'requestidlecallback',
+  'Window.cancelIdleCallback': 'requestidlecallback',
+  'Window.showOpenFilePicker': 'file-system-access',
+  'Window.showSaveFilePicker': 'file-system-access',
+  'Window.showDirectoryPicker': 'file-system-access',
+  'Window.queryLocalFonts': 'local-fonts',
+  'Window.getScreenDetails': 'window-management',
+  'Window.fetchLater': 'fetchlater',
+
+  // ========== JAVASCRIPT BUILT-INS ==========
+  'Array.at': 'array-at',
+  'ReadonlyArray.at': 'array-at',
+  'String.at': 'string-at',
+  'Array.findLast': 'array-findlast',
+  'Array.findLastIndex': 'array-findlast',
+  'ReadonlyArray.findLast': 'array-findlast',
+  'ReadonlyArray.findLastIndex': 'array-findlast',
+  'TypedArray.at': 'array-at',
+  'TypedArray.findLast': 'array-findlast',
+  'TypedArray.findLastIndex': 'array-findlast',
+  'TypedArray.toReversed': 'array-by-copy',
+  'TypedArray.toSorted': 'array-by-copy',
+  'TypedArray.with': 'array-by-copy',
+  'TypedArray.includes': 'array-includes',
+  'Array.toReversed': 'array-by-copy',
+  'Array.toSorted': 'array-by-copy',
+  'Array.toSpliced': 'array-by-copy',
+  'Array.with': 'array-by-copy',
+  'Array.flat': 'array-flat',
+  'Array.flatMap': 'array-flat',
+  'Array.includes': 'array-includes',
+  'Array.fromAsync': 'array-fromasync',
+  'Object.hasOwn': 'object-hasown',
+  'Object.groupBy': 'array-group',
+  'Map.groupBy': 'array-group',
+  'String.replaceAll': 'string-replaceall',
+  'Promise.any': 'promise-any',
+  'Promise.allSettled': 'promise-allsettled',
+  'Promise.withResolvers': 'promise-withresolvers',
+  'Set.union': 'set-methods',
+  'Set.intersection': 'set-methods',
+  'Set.difference': 'set-methods',
+  'Set.symmetricDifference': 'set-methods',
+  'Set.isSubsetOf': 'set-methods',
+  'Set.isSupersetOf': 'set-methods',
+  'Set.isDisjointFrom': 'set-methods'
+};
+
+// Hand-written entries win over the generated ones
+export const SYMBOL_FEATURE_MAP = withGeneratedSymbols(CURATED_SYMBOL_FEATURE_MAP);
+
+export function getFeatureIdForSymbol(symbolKey: string): string | undefined {
+  return SYMBOL_FEATURE_MAP[symbolKey];
+}
+
+/**
+ * Whether a key is one of the hand-written entries above. Bare calls only
+ * resolve to `Window` members listed here: generated ones such as
+ * `Window.open`, `Window.stop` or `Window.print` are as often local functions.
+ */
+export function isCuratedSymbol(symbolKey: string): boolean {
+  return symbolKey in CURATED_SYMBOL_FEATURE_MAP;
+}
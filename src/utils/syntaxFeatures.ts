@@ -0,0 +1,70 @@
+// src/utils/syntaxFeatures.ts
+
+/**
+ * ECMAScript syntax recognised by the syntax visitor, with the web-features
+ * ID each one belongs to and the BCD key that describes it. Several share an
+ * umbrella feature (`class-syntax`, `regexp`, `js-modules`).
+ */
+export interface SyntaxFeature {
+  featureId: string;
+  compatKey: string;
+  description: string;
+  // ECMAScript edition that added the syntax, when compilers can lower it to older editions
+  esVersion?: number;
+}
+
+export type SyntaxFeatureName =
+  | 'optional-chaining'
+  | 'nullish-coalescing'
+  | 'nullish-coalescing-assignment'
+  | 'logical-and-assignment'
+  | 'logical-or-assignment'
+  | 'public-class-fields'
+  | 'static-class-fields'
+  | 'private-class-fields'
+  | 'private-class-methods'
+  | 'private-in'
+  | 'static-blocks'
+  | 'top-level-await'
+  | 'numeric-separators'
+  | 'regexp-flag-d'
+  | 'regexp-flag-s'
+  | 'regexp-flag-v'
+  | 'import-meta'
+  | 'dynamic-import'
+  | 'import-attributes'
+  | 'import-attributes-json'
+  | 'import-attributes-css'
+  | 'import-assertions';
+
+export const SYNTAX_FEATURES: { [name in SyntaxFeatureName]: SyntaxFeature } = {
+  // ========== OPERATORS ==========
+  'optional-chaining': { featureId: 'object-object', compatKey: 'javascript.operators.optional_chaining', description: 'optional chaining (?.)', esVersion: 2020 },
+  'nullish-coalescing': { featureId: 'nullish-coalescing', compatKey: 'javascript.operators.nullish_coalescing', description: 'nullish coalescing (??)', esVersion: 2020 },
+  'nullish-coalescing-assignment': { featureId: 'nullish-coalescing', compatKey: 'javascript.operators.nullish_coalescing_assignment', description: 'nullish coalescing assignment (??=)', esVersion: 2021 },
+  'logical-and-assignment': { featureId: 'logical-assignments', compatKey: 'javascript.operators.logical_and_assignment', description: 'logical AND assignment (&&=)', esVersion: 2021 },
+  'logical-or-assignment': { featureId: 'logical-assignments', compatKey: 'javascript.operators.logical_or_assignment', description: 'logical OR assignment (||=)', esVersion: 2021 },
+
+  // ========== CLASSES ==========
+  'public-class-fields': { featureId: 'class-syntax', compatKey: 'javascript.classes.public_class_fields', description: 'public class field', esVersion: 2022 },
+  'static-class-fields': { featureId: 'class-syntax', compatKey: 'javascript.classes.static.class_fields', description: 'static class field', esVersion: 2022 },
+  'private-class-fields': { featureId: 'class-syntax', compatKey: 'javascript.classes.private_class_fields', description: 'private class field', esVersion: 2022 },
+  'private-class-methods': { featureId: 'class-syntax', compatKey: 'javascript.classes.private_class_methods', description: 'private class method', esVersion: 2022 },
+  'private-in': { featureId: 'class-syntax', compatKey: 'javascript.classes.private_class_fields_in', description: '#field in object', esVersion: 2022 },
+  'static-blocks': { featureId: 'class-syntax', compatKey: 'javascript.classes.static.initialization_blocks', description: 'static initialization block', esVersion: 2022 },
+
+  // ========== GRAMMAR ==========
+  'top-level-await': { featureId: 'top-level-await', compatKey: 'javascript.operators.await.top_level', description: 'top-level await' },
+  'numeric-separators': { featureId: 'numeric-separators', compatKey: 'javascript.grammar.numeric_separators', description: 'numeric separator', esVersion: 2021 },
+  'regexp-flag-d': { featureId: 'regexp', compatKey: 'javascript.builtins.RegExp.hasIndices', description: 'RegExp d flag (match indices)' },
+  'regexp-flag-s': { featureId: 'regexp', compatKey: 'javascript.builtins.RegExp.dotAll', description: 'RegExp s flag (dotAll)' },
+  'regexp-flag-v': { featureId: 'regexp', compatKey: 'javascript.builtins.RegExp.unicodeSets', description: 'RegExp v flag (unicode sets)' },
+
+  // ========== MODULES ==========
+  'import-meta': { featureId: 'js-modules', compatKey: 'javascript.operators.import_meta', description: 'import.meta' },
+  'dynamic-import': { featureId: 'js-modules', compatKey: 'javascript.operators.import', description: 'dynamic import()' },
+  'import-attributes': { featureId: 'js-modules', compatKey: 'javascript.statements.import.import_attributes', description: 'import attributes (with)' },
+  'import-attributes-json': { featureId: 'json-modules', compatKey: 'javascript.statements.import.import_attributes.type_json', description: 'JSON module import' },
+  'import-attributes-css': { featureId: 'css-modules', compatKey: 'javascript.statements.import.import_attributes.type_css', description: 'CSS module import' },
+  'import-assertions': { featureId: 'import-assertions', compatKey: 'javascript.statements.import.import_assertions', description: 'import assertions (assert)' }
+};
@@ -0,0 +1,231 @@
+// src/utils/webFeaturesData.ts
+import { BaselineStatus, BrowserImplementation, SubFeature, SupportCaveat, WebFeature } from '../webStatusApi';
+
+/**
+ * The parts of the `web-features` package dataset (`web-features/data.json`)
+ * read here.
+ */
+export interface WebFeaturesDataset {
+  browsers?: { [browser: string]: { releases?: Release[] } };
+  features: { [id: string]: WebFeaturesEntry };
+}
+
+interface Release {
+  version: string;
+  date: string;
+}
+
+interface WebFeaturesEntry {
+  // Moved and split features have no status of their own
+  kind?: 'feature' | 'moved' | 'split';
+  name?: string;
+  spec?: string | string[];
+  status?: WebFeaturesStatus;
+}
+
+interface WebFeaturesStatus {
+  baseline?: 'high' | 'low' | false;
+  baseline_low_date?: string;
+  baseline_high_date?: string;
+  // First supporting version per browser, e.g. `≤79`
+  support?: { [browser: string]: string };
+  by_compat_key?: { [compatKey: string]: WebFeaturesStatus };
+}
+
+/**
+ * The `@mdn/browser-compat-data` dataset: nested by BCD key path, with the
+ * support statements of a key in its `__compat`.
+ */
+export type CompatData = { [key: string]: unknown };
+
+interface SupportStatement {
+  version_added?: string | boolean | null;
+  version_removed?: string | boolean | null;
+  prefix?: string;
+  alternative_name?: string;
+  flags?: Array<{ name: string }>;
+  partial_implementation?: boolean;
+  notes?: string | string[];
+}
+
+const BASELINE_STATUS: { [key: string]: BaselineStatus['status'] } = { high: 'widely', low: 'newly' };
+
+// Dates and versions such as `≤2020-01-15` and `≤79` are upper bounds
+function clean(value: string | undefined): string {
+  return String(value || '').replace('≤', '');
+}
+
+/**
+ * Converts the `web-features` package dataset into WebStatus API features,
+ * with sub-features and, when the `@mdn/browser-compat-data` dataset is
+ * given, support caveats. scripts/generate-snapshot.js builds the bundled
+ * snapshot with this same function.
+ */
+export function fromWebFeaturesData(data: WebFeaturesDataset, compatData?: CompatData): WebFeature[] {
+  const browsers = data.browsers || {};
+
+  return Object.keys(data.features)
+    .sort()
+    .filter(id => !data.features[id].kind || data.features[id].kind === 'feature')
+    .map(id => {
+      const feature = data.features[id];
+      const status = feature.status || {};
+      const support = status.support || {};
+
+      const implementations: { [browser: string]: BrowserImplementation } = {};
+      for (const [browser, { releases = [] }] of Object.entries(browsers)) {
+        implementations[browser] = toImplementation(support[browser], releases);
+      }
+
+      const specs = Array.isArray(feature.spec) ? feature.spec : [feature.spec].filter((spec): spec is string => !!spec);
+      const webFeature: WebFeature = {
+        baseline: toBaseline(status),
+        browser_implementations: implementations,
+        feature_id: id,
+        name: feature.name || id,
+        spec: { links: specs.map(link => ({ link })) }
+      };
+      const subFeatures = toSubFeatures(status, browsers, compatData);
+      if (subFeatures) {
+        webFeature.sub_features = subFeatures;
+      }
+      return webFeature;
+    });
+}
+
+function toBaseline(status: WebFeaturesStatus): BaselineStatus {
+  const baseline: BaselineStatus = { status: (status.baseline && BASELINE_STATUS[status.baseline]) || 'limited' };
+  if (status.baseline_low_date) {
+    baseline.low_date = clean(status.baseline_low_date);
+  }
+  if (status.baseline_high_date) {
+    baseline.high_date = clean(status.baseline_high_date);
+  }
+  return baseline;
+}
+
+function toImplementation(version: string | undefined, releases: Release[]): BrowserImplementation {
+  if (version === undefined) {
+    return { date: '', status: 'unavailable', version: '' };
+  }
+  const release = releases.find(r => r.version === clean(version));
+  return { date: release ? release.date : '', status: 'available', version: clean(version) };
+}
+
+// Sub-features whose status differs from the feature's or that have caveats
+function toSubFeatures(
+  status: WebFeaturesStatus,
+  browsers: NonNullable<WebFeaturesDataset['browsers']>,
+  compatData: CompatData | undefined
+): { [compatKey: string]: SubFeature } | undefined {
+  const subFeatures: { [compatKey: string]: SubFeature } = {};
+  const parentSupport = status.support || {};
+
+  for (const [key, sub] of Object.entries(status.by_compat_key || {})) {
+    const support = compatData ? findCompatSupport(compatData, key) : {};
+    const subSupport = sub.support || {};
+
+    const implementations: { [browser: string]: BrowserImplementation } = {};
+    let hasCaveats = false;
+    for (const [browser, { releases = [] }] of Object.entries(browsers)) {
+      const caveats = toCaveats(support[browser], subSupport[browser]);
+      if (subSupport[browser] === parentSupport[browser] && caveats.length === 0) {
+        continue;
+      }
+      implementations[browser] = toImplementation(subSupport[browser], releases);
+      if (caveats.length > 0) {
+        implementations[browser].caveats = caveats;
+        hasCaveats = true;
+      }
+    }
+
+    const baseline = toBaseline(sub);
+    if (hasCaveats || baseline.status !== toBaseline(status).status) {
+      subFeatures[key] = { baseline, browser_implementations: implementations };
+    }
+  }
+  return Object.keys(subFeatures).length > 0 ? subFeatures : undefined;
+}
+
+// The `__compat.support` of a BCD key such as `css.properties.display.grid`
+function findCompatSupport(compatData: CompatData, key: string): { [browser: string]: unknown } {
+  let node: unknown = compatData;
+  for (const part of key.split('.')) {
+    node = isObject(node) ? node[part] : undefined;
+  }
+  const compat = isObject(node) ? node.__compat : undefined;
+  const support = isObject(compat) ? compat.support : undefined;
+  return isObject(support) ? support : {};
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Prefixed, renamed, flagged or partial support, where it matters: in
+// browsers without full support or in releases before their full support
+function toCaveats(statements: unknown, fullSupport: string | undefined): SupportCaveat[] {
+  return ([] as unknown[]).concat(statements || [])
+    .filter((s): s is SupportStatement => isObject(s))
+    .filter(s => typeof s.version_added === 'string' && s.version_added !== 'preview' && !s.version_removed)
+    .filter(s => s.prefix || s.alternative_name || s.flags || s.partial_implementation)
+    .filter(s => fullSupport === undefined || isEarlier(clean(s.version_added as string), clean(fullSupport)))
+    .map(s => {
+      const caveat: SupportCaveat = { version: clean(s.version_added as string) };
+      if (s.prefix) {
+        caveat.prefix = s.prefix;
+      }
+      if (s.alternative_name) {
+        caveat.alternative_name = s.alternative_name;
+      }
+      if (s.flags) {
+        caveat.flags = s.flags.map(flag => flag.name);
+      }
+      if (s.partial_implementation) {
+        caveat.partial = true;
+        if (s.notes) {
+          caveat.notes = ([] as string[]).concat(s.notes).map(note => note.replace(/<[^>]+>/g, ''));
+        }
+      }
+      return caveat;
+    });
+}
+
+// Whether release `a` comes before release `b`, e.g. `9` before `15.4`
+function isEarlier(a: string, b: string): boolean {
+  const [aMajor, aMinor = 0] = a.split('.').map(Number);
+  const [bMajor, bMinor = 0] = b.split('.').map(Number);
+  return aMajor < bMajor || (aMajor === bMajor && aMinor < bMinor);
+}
+
+/**
+ * Reads features from any of the JSON shapes a feature file may have: a
+ * WebStatus API response (`{ data: [...] }`), the bundled snapshot or the
+ * persisted cache (`{ features: [...] }`), a plain array of features, or
+ * the `web-features` package dataset. Throws when the shape is unknown.
+ */
+export function normalizeFeatureData(json: unknown): WebFeature[] {
+  let entries: unknown[];
+  if (Array.isArray(json)) {
+    entries = json;
+  } else if (isObject(json) && Array.isArray(json.data)) {
+    entries = json.data;
+  } else if (isObject(json) && Array.isArray(json.features)) {
+    entries = json.features;
+  } else if (isObject(json) && isObject(json.features)) {
+    return fromWebFeaturesData(json as unknown as WebFeaturesDataset);
+  } else {
+    throw new Error('not a WebStatus response, feature list or web-features dataset');
+  }
+
+  return entries
+    .filter((entry): entry is Partial<WebFeature> & { feature_id: string } =>
+      isObject(entry) && typeof entry.feature_id === 'string'
+    )
+    .map(entry => ({
+      ...entry,
+      name: entry.name || entry.feature_id,
+      browser_implementations: entry.browser_implementations || {},
+      spec: entry.spec || { links: [] }
+    }));
+}
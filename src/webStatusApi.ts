@@ -1,16 +1,52 @@
-import axios from 'axios';
 import * as vscode from 'vscode';
-import { WEBSTATUS_API_URL, CACHE_DURATION, STATUS_ICONS } from './utils/constants';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CACHE_DURATION, STATUS_ICONS } from './utils/constants';
+import { CacheValidators, FeatureSourceKind, LoadedFeatures, createFeatureSources, getApiPageSize } from './services/featureSources';
+import { FeatureStatusChange, diffFeatures } from './utils/featureChanges';
+import { FeatureTimeline, buildTimeline } from './utils/featureTimeline';
+import snapshot from './data/webStatusSnapshot.json';
 
 export interface BaselineStatus {
   status: 'newly' | 'widely' | 'limited';
   low_date?: string;
+  high_date?: string;
 }
 
 export interface BrowserImplementation {
   date: string;
   status: 'available' | 'unavailable';
   version: string;
+  // Support with strings attached, from browser-compat-data
+  caveats?: SupportCaveat[];
+}
+
+/**
+ * Support that needs a prefix, another name or a flag, or that is partial,
+ * from `version` on. Only listed where the browser lacks full support or
+ * had this support before full support.
+ */
+export interface SupportCaveat {
+  version: string;
+  // e.g. `-webkit-`
+  prefix?: string;
+  alternative_name?: string;
+  // Names of the preferences or runtime flags that enable it
+  flags?: string[];
+  partial?: boolean;
+  notes?: string[];
+}
+
+/**
+ * Support for one browser-compat-data key of a feature, such as a single
+ * CSS value or element attribute. Browsers not listed support it as they
+ * support the feature.
+ */
+export interface SubFeature {
+  baseline?: BaselineStatus;
+  browser_implementations: {
+    [browser: string]: BrowserImplementation;
+  };
 }
 
 export interface WebFeature {
@@ -28,21 +64,68 @@ export interface WebFeature {
       daily?: number;
     };
   };
+  // Keyed by BCD key, e.g. `css.properties.display.grid`; only the keys whose
+  // status differs from the feature's or that have support caveats
+  sub_features?: {
+    [compatKey: string]: SubFeature;
+  };
 }
 
-interface WebStatusResponse {
-  data: WebFeature[];
+/**
+ * Feature list bundled with the extension, generated from web-features by
+ * scripts/generate-snapshot.js (`npm run generate-snapshot`).
+ */
+interface WebStatusSnapshot {
+  source: { package: string; version: string; date: string };
+  features: WebFeature[];
 }
 
+/**
+ * Which data the client is serving: the bundled snapshot alone, or data
+ * from a configured source layered over it.
+ */
+export interface DatasetInfo {
+  source: 'snapshot' | 'live';
+  // The source the live data came from, e.g. `WebStatus API`
+  liveSource?: { kind: FeatureSourceKind; label: string };
+  // Bundled snapshot version, e.g. `web-features 3.40.0`
+  snapshotVersion: string;
+  // ISO date of the snapshot, or of the last successful fetch for live data
+  date: string;
+}
+
+/**
+ * The last loaded feature data, kept in the extension's global storage so
+ * every window and workspace starts from it.
+ */
+export interface PersistedFeatureCache {
+  fetchedAt: number;
+  // Caches written before data sources were configurable came from the API
+  source?: FeatureSourceKind;
+  label?: string;
+  // Validators for conditional requests
+  etag?: string;
+  lastModified?: string;
+  features: WebFeature[];
+}
+
+const SNAPSHOT = snapshot as WebStatusSnapshot;
+const CACHE_FILE_NAME = 'webstatus-features.json';
+
 export class WebStatusApiClient {
   private static instance: WebStatusApiClient;
   private cache = new Map<string, WebFeature>();
   private lastFetch: number = 0;
   private outputChannel: vscode.OutputChannel | undefined;
+  private dataset!: DatasetInfo;
+  private cacheFile: string | undefined;
+  private validators: CacheValidators = {};
+  private statusChanges: FeatureStatusChange[] = [];
 
   static getInstance(): WebStatusApiClient {
     if (!WebStatusApiClient.instance) {
       WebStatusApiClient.instance = new WebStatusApiClient();
+      WebStatusApiClient.instance.loadSnapshot();
     }
     return WebStatusApiClient.instance;
   }
@@ -51,7 +134,21 @@ export class WebStatusApiClient {
     this.outputChannel = channel;
   }
 
-  async fetchFeatures(): Promise<WebFeature[]> {
+  /**
+   * Persists fetched data under `storageUri` (the extension's global
+   * storage) and serves whatever an earlier session saved there right away.
+   */
+  setStorageUri(storageUri: vscode.Uri) {
+    this.cacheFile = path.join(storageUri.fsPath, CACHE_FILE_NAME);
+    this.loadPersistedCache();
+  }
+
+  /**
+   * Brings the cache up to date from the first configured data source that
+   * loads. `onProgress` is called as features arrive, after each page for
+   * the API and mirrors.
+   */
+  async fetchFeatures(onProgress?: (fetched: number, total?: number) => void): Promise<WebFeature[]> {
     const now = Date.now();
     
     if (now - this.lastFetch < CACHE_DURATION && this.cache.size > 0) {
@@ -59,37 +156,206 @@ export class WebStatusApiClient {
       return Array.from(this.cache.values());
     }
 
-    try {
-      this.outputChannel?.appendLine('🌐 Fetching WebStatus features...');
-      
-      const response = await axios.get<WebStatusResponse>(WEBSTATUS_API_URL, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'BaselineGuard-VSCode-Extension/1.0.0'
-        }
-      });
-      
-      // Update cache
-      this.cache.clear();
-      response.data.data.forEach(feature => {
-        this.cache.set(feature.feature_id, feature);
-      });
-      
+    for (const source of createFeatureSources()) {
+      try {
+        this.outputChannel?.appendLine(`🌐 Fetching features from the ${source.kind} source...`);
+        const loaded = await source.load({
+          pageSize: getApiPageSize(),
+          // Validators only mean something to the source that issued them
+          validators: this.dataset.liveSource?.kind === source.kind ? this.validators : {},
+          onPage: (fetched, total) => {
+            this.outputChannel?.appendLine(`   📄 ${fetched}${total ? `/${total}` : ''} features`);
+            onProgress?.(fetched, total);
+          }
+        });
+        this.applyLoadedFeatures(loaded, now);
+        return Array.from(this.cache.values());
+      } catch (error) {
+        this.outputChannel?.appendLine(`❌ Failed to load features from the ${source.kind} source: ${error}`);
+      }
+    }
+
+    this.outputChannel?.appendLine(`📦 Using ${this.describeDataset()}`);
+    // Cached live data if available, otherwise the bundled snapshot
+    return Array.from(this.cache.values());
+  }
+
+  private applyLoadedFeatures(loaded: LoadedFeatures, now: number) {
+    const liveSource = { kind: loaded.source, label: loaded.label };
+
+    // Nothing changed since the persisted copy: only its age is updated
+    if (loaded.notModified) {
+      this.lastFetch = now;
+      this.dataset = { ...this.dataset, date: new Date(now).toISOString().slice(0, 10) };
+      const persisted = this.readPersistedCache();
+      if (persisted) {
+        this.savePersistedCache(persisted.features);
+      }
+      this.outputChannel?.appendLine(`✅ ${loaded.label} data not modified since the last fetch`);
+      return;
+    }
+
+    // Compared with what was served until now: the persisted data over the snapshot
+    this.statusChanges = diffFeatures(this.cache, loaded.features);
+
+    // Live data replaces the snapshot feature by feature; features the source lacks stay
+    loaded.features.forEach(feature => this.layerFeature(feature));
+
+    this.dataset = { ...this.dataset, source: 'live', liveSource, date: new Date(now).toISOString().slice(0, 10) };
+
+    if (loaded.complete) {
       this.lastFetch = now;
-      this.outputChannel?.appendLine(`✅ Loaded ${response.data.data.length} features from WebStatus API`);
-      return response.data.data;
-      
+      this.validators = loaded.validators;
+      this.savePersistedCache(loaded.features);
+      this.outputChannel?.appendLine(`✅ Loaded ${loaded.features.length} features from ${loaded.label}`);
+    } else {
+      // Keep what arrived, but without validators and with the earlier fetch
+      // time, so the data stays stale and the next fetch loads every page again
+      const previous = this.readPersistedCache()?.features || [];
+      const merged = new Map(previous.map(feature => [feature.feature_id, feature]));
+      loaded.features.forEach(feature => merged.set(feature.feature_id, feature));
+      this.validators = {};
+      this.savePersistedCache(Array.from(merged.values()));
+      this.outputChannel?.appendLine(`⚠️ Loaded ${loaded.features.length} features from ${loaded.label} before paging stopped: ${loaded.error}`);
+    }
+  }
+
+  /**
+   * Status changes found by the last fetch that brought new data. Each set
+   * of changes is returned once, so it is reported once.
+   */
+  takeStatusChanges(): FeatureStatusChange[] {
+    const changes = this.statusChanges;
+    this.statusChanges = [];
+    return changes;
+  }
+
+  getDatasetInfo(): DatasetInfo {
+    return this.dataset;
+  }
+
+  /**
+   * The dataset in use, for display: `web-features 3.40.0 snapshot (2025-01-15)`
+   * or `WebStatus API (2025-03-02) over web-features 3.40.0 snapshot`.
+   */
+  describeDataset(): string {
+    const { source, liveSource, snapshotVersion, date } = this.dataset;
+    return source === 'live'
+      ? `${liveSource?.label || 'WebStatus API'} (${date}) over ${snapshotVersion} snapshot`
+      : `${snapshotVersion} snapshot (${date})`;
+  }
+
+  /**
+   * Where the persisted cache lives and what it holds, for the cache command.
+   */
+  getPersistedCacheInfo(): { file: string; fetchedAt: number; etag?: string; lastModified?: string; size: number } | undefined {
+    const persisted = this.cacheFile ? this.readPersistedCache() : undefined;
+    if (!this.cacheFile || !persisted) {
+      return undefined;
+    }
+    return {
+      file: this.cacheFile,
+      fetchedAt: persisted.fetchedAt,
+      etag: persisted.etag,
+      lastModified: persisted.lastModified,
+      size: persisted.features.length
+    };
+  }
+
+  /**
+   * Deletes the persisted cache and falls back to the bundled snapshot
+   * until the next fetch.
+   */
+  clearPersistedCache() {
+    if (this.cacheFile && fs.existsSync(this.cacheFile)) {
+      fs.unlinkSync(this.cacheFile);
+    }
+    this.cache.clear();
+    this.loadSnapshot();
+    this.validators = {};
+    this.lastFetch = 0;
+    this.outputChannel?.appendLine('🗑️ Persisted feature cache deleted');
+  }
+
+  private loadPersistedCache() {
+    const persisted = this.readPersistedCache();
+    if (!persisted) {
+      return;
+    }
+
+    persisted.features.forEach(feature => this.layerFeature(feature));
+    this.lastFetch = persisted.fetchedAt;
+    this.validators = { etag: persisted.etag, lastModified: persisted.lastModified };
+    const liveSource = { kind: persisted.source || 'api', label: persisted.label || 'WebStatus API' };
+    this.dataset = { ...this.dataset, source: 'live', liveSource, date: new Date(persisted.fetchedAt).toISOString().slice(0, 10) };
+    this.outputChannel?.appendLine(`💾 Loaded ${persisted.features.length} features cached on ${new Date(persisted.fetchedAt).toLocaleString()}`);
+  }
+
+  private readPersistedCache(): PersistedFeatureCache | undefined {
+    if (!this.cacheFile || !fs.existsSync(this.cacheFile)) {
+      return undefined;
+    }
+    try {
+      const persisted = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as PersistedFeatureCache;
+      return Array.isArray(persisted.features) ? persisted : undefined;
     } catch (error) {
-      this.outputChannel?.appendLine(`❌ Failed to fetch WebStatus data: ${error}`);
-      // Return cached data if available
-      return Array.from(this.cache.values());
+      this.outputChannel?.appendLine(`⚠️ Ignoring unreadable feature cache ${this.cacheFile}: ${error}`);
+      return undefined;
+    }
+  }
+
+  private savePersistedCache(features: WebFeature[]) {
+    if (!this.cacheFile) {
+      return;
+    }
+    const persisted: PersistedFeatureCache = {
+      fetchedAt: this.lastFetch,
+      source: this.dataset.liveSource?.kind,
+      label: this.dataset.liveSource?.label,
+      ...this.validators,
+      features
+    };
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+      fs.writeFileSync(this.cacheFile, JSON.stringify(persisted));
+    } catch (error) {
+      this.outputChannel?.appendLine(`⚠️ Could not write feature cache ${this.cacheFile}: ${error}`);
     }
   }
 
+  // The WebStatus API has no sub-feature data, so a feature keeps the one it had
+  private layerFeature(feature: WebFeature) {
+    const previous = this.cache.get(feature.feature_id);
+    if (!feature.sub_features && previous?.sub_features) {
+      feature = { ...feature, sub_features: previous.sub_features };
+    }
+    this.cache.set(feature.feature_id, feature);
+  }
+
+  private loadSnapshot() {
+    SNAPSHOT.features.forEach(feature => {
+      this.cache.set(feature.feature_id, feature);
+    });
+    this.dataset = {
+      source: 'snapshot',
+      snapshotVersion: `${SNAPSHOT.source.package} ${SNAPSHOT.source.version}`,
+      date: SNAPSHOT.source.date
+    };
+  }
+
   getFeature(featureId: string): WebFeature | undefined {
     return this.cache.get(featureId);
   }
 
+  /**
+   * Per-browser release dates and Baseline milestones of a feature,
+   * including its projected widely-available date while it is newly available.
+   */
+  getTimeline(featureId: string): FeatureTimeline | undefined {
+    const feature = this.cache.get(featureId);
+    return feature ? buildTimeline(feature) : undefined;
+  }
+
   searchFeaturesByName(name: string): WebFeature[] {
     const searchTerm = name.toLowerCase();
     return Array.from(this.cache.values()).filter(feature => 
@@ -150,6 +416,8 @@ export class WebStatusApiClient {
 
   forceRefresh() {
     this.cache.clear();
+    this.loadSnapshot();
+    this.loadPersistedCache();
     this.lastFetch = 0;
     this.outputChannel?.appendLine('🗑️ Cache cleared, forcing refresh on next fetch');
   }
@@ -158,7 +426,8 @@ export class WebStatusApiClient {
     return {
       size: this.cache.size,
       lastFetch: this.lastFetch,
-      isStale: Date.now() - this.lastFetch > CACHE_DURATION
+      isStale: Date.now() - this.lastFetch > CACHE_DURATION,
+      dataset: this.describeDataset()
     };
   } 
-}
\ No newline at end of file
+}